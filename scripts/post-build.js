@@ -61,6 +61,29 @@ declare global {
        * @default 'smart'
        */
       cacheBy?: CacheStrategy;
+
+      /**
+       * How strictly the selector is checked before it is returned. Levels are cumulative:
+       * - 'exists': matches at least one element
+       * - 'unique': matches exactly one element
+       * - 'visible': unique and displayed
+       * - 'interactable': visible and enabled
+       * Defaults to the service's \`verification\` option ('exists' if unset).
+       * @example
+       * await browser.aiLocator('Save button', { verification: 'interactable' });
+       */
+      verification?: 'exists' | 'unique' | 'visible' | 'interactable';
+
+      /**
+       * Only for aiElement / aiElements: when an action (click, doubleClick, setValue, addValue,
+       * clearValue) fails because the element went stale or is not interactable, re-resolve the
+       * description and retry the action once. Each heal is logged.
+       * Defaults to the service's \`healOnAction\` option (false if unset).
+       * @example
+       * const save = await browser.aiElement('Save button', { healOnAction: true });
+       * await save.click(); // survives a rerender between lookup and click
+       */
+      healOnAction?: boolean;
     }
 
     interface Browser {
@@ -104,12 +127,39 @@ declare global {
        */
       aiLocator(description: string, options?: AiLocatorOptions): Promise<string>;
 
+      /**
+       * Find an element using AI-powered locator generation and return it as a WebdriverIO element.
+       * Uses the same cache, verification and auto-healing as aiLocator.
+       * With the service's frames option, switches into the element's iframe and stays there.
+       * @param description Natural language description of the element to find (supports {variable} templates)
+       * @param options Optional configuration for the AI locator
+       * @returns Promise resolving to the matched element
+       * @example
+       * const loginButton = await browser.aiElement('login button');
+       * await loginButton.click();
+       *
+       * await (await browser.aiElement('Save button', { verification: 'interactable' })).click();
+       */
+      aiElement(description: string, options?: AiLocatorOptions): Promise<WebdriverIO.Element>;
+
+      /**
+       * Find all elements matching an AI-generated locator.
+       * Uses the same cache and auto-healing as aiLocator.
+       * @param description Natural language description of the elements to find (supports {variable} templates)
+       * @param options Optional configuration for the AI locator
+       * @returns Promise resolving to the matched elements
+       * @example
+       * const rows = await browser.aiElements('rows of the users table');
+       * expect(rows.length).toBe(5);
+       */
+      aiElements(description: string, options?: AiLocatorOptions): Promise<WebdriverIO.ElementArray>;
+
       /**
        * Set global AI context variables that apply to all aiLocator calls.
        * @param context Variables to set in global context
        * @example
        * await browser.setAiContext({ userName: 'John', role: 'admin' });
-       * await browser.aiLocator('Profile for {userName}').click(); // Uses global context
+       * await (await browser.aiElement('Profile for {userName}')).click(); // Uses global context
        */
       setAiContext(context: Record<string, any>): void;
 
@@ -136,12 +186,28 @@ declare global {
        * @returns Promise resolving to function result
        * @example
        * await browser.withAiContext({ userName: 'Jane' }, async () => {
-       *   await browser.aiLocator('Profile for {userName}').click();
+       *   await (await browser.aiElement('Profile for {userName}')).click();
        *   // Context auto-cleared after this block
        * });
        */
       withAiContext<T>(context: Record<string, any>, fn: () => Promise<T>): Promise<T>;
     }
+
+    interface Element {
+      /**
+       * Find an element inside this one using AI-powered locator generation.
+       * Only this element's HTML is sent to the AI, and the returned selector is relative to it,
+       * so use it with this element's $() / $$(). Cached separately per container.
+       * @param description Natural language description of the element to find (supports {variable} templates)
+       * @param options Optional configuration for the AI locator
+       * @returns Promise resolving to a selector relative to this element
+       * @example
+       * const checkout = await $('#checkout');
+       * const coupon = await checkout.aiLocator('apply coupon button');
+       * await checkout.$(coupon).click();
+       */
+      aiLocator(description: string, options?: AiLocatorOptions): Promise<string>;
+    }
   }
 }
 `;
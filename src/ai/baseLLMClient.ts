@@ -0,0 +1,356 @@
+import { log, logInfo, logError } from '../utils/logger';
+import { UsageCache, UsageEntry } from '../utils/usageCache';
+import type { Platform } from '../utils/platform';
+import { PromptContext, buildSystemPrompt, buildUserPrompt } from './prompts';
+import {
+  LocatorResponsePayload,
+  SelectorType,
+  parseLocatorResponse,
+  responseSchemaFor
+} from './responseSchema';
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Answer from an LLMClient.
+ * Custom clients should fill best/alternates; the legacy `selector` string
+ * ('best|||alt1|||alt2') is still accepted when best is absent.
+ */
+export interface LLMResponse {
+  best?: string;
+  alternates?: string[];
+  selectorType?: SelectorType;
+  confidence?: number;
+  rationale?: string;
+  /** Path of the frame holding the element ('0.1'), when frames were included in the DOM */
+  frame?: string;
+  /** Ref id of the chosen accessibility snapshot entry, when a snapshot was sent */
+  ref?: string;
+  /** 'llm' when the model answered, 'fallback' when heuristic selectors were generated instead */
+  source?: 'llm' | 'fallback';
+  /** Client name and model that answered, for 'llm' responses */
+  provider?: string;
+  model?: string;
+  /** @deprecated Use best and alternates */
+  selector?: string;
+  usage?: LLMUsage;
+}
+
+export interface LLMClient {
+  /**
+   * @param feedback Notes about selectors from earlier attempts that failed verification
+   * @param context What the DOM represents (e.g. a container element instead of the whole page)
+   */
+  generateLocator(
+    dom: string,
+    description: string,
+    url?: string,
+    requestTemplate?: boolean,
+    feedback?: string[],
+    context?: PromptContext
+  ): Promise<LLMResponse>;
+}
+
+/**
+ * What a provider transport receives: the shared prompts, already built
+ */
+export interface LLMRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  /**
+   * JSON schema the reply must follow. Present when structured output is enabled; transports
+   * should pass it through the provider's native JSON mode if there is one.
+   */
+  responseSchema?: Record<string, any>;
+}
+
+/**
+ * What a provider transport returns: the raw model text plus token usage if the API reports it
+ */
+export interface LLMTransportResult {
+  content: string;
+  usage?: LLMUsage;
+}
+
+/**
+ * Shared implementation of LLMClient.
+ * Owns prompt building, response parsing, fallback selectors and usage recording, so
+ * every provider behaves the same way.
+ *
+ * Adding a provider:
+ * 1. Extend BaseLLMClient and pass a display name, model and endpoint to super()
+ * 2. Implement sendMessages(): send the system and user prompts in the provider's wire format,
+ *    request JSON output when responseSchema is set, and map the reply into { content, usage }
+ * 3. Add the provider name to LLMProvider in src/types.ts and construct it in AiLocatorService.before
+ *
+ * @example
+ * class MyClient extends BaseLLMClient {
+ *   constructor(model: string) {
+ *     super('MyProvider', model, 'https://llm.example.com/chat');
+ *   }
+ *
+ *   protected async sendMessages({ systemPrompt, userPrompt }: LLMRequest) {
+ *     const response = await axios.post(this.apiUrl, { system: systemPrompt, prompt: userPrompt });
+ *     return { content: response.data.text };
+ *   }
+ * }
+ */
+export abstract class BaseLLMClient implements LLMClient {
+  protected model: string;
+  protected apiUrl: string;
+  protected usageCache: UsageCache;
+  protected readonly aiClientName: string;
+  /** Ask the provider for schema-constrained JSON output (disable for models without support) */
+  structuredOutput: boolean = true;
+
+  constructor(
+    aiClientName: string,
+    model: string,
+    apiUrl: string,
+    enableUsageTracking: boolean = false,
+    usageCachePath?: string
+  ) {
+    this.aiClientName = aiClientName;
+    this.model = model;
+    this.apiUrl = apiUrl;
+    this.usageCache = new UsageCache(this.aiClientName, enableUsageTracking, usageCachePath);
+    log(`${this.aiClientName} client initialized with model:`, model);
+    log(`${this.aiClientName} client API URL:`, this.apiUrl);
+
+    if (enableUsageTracking) {
+      logInfo('AI usage tracking ENABLED at:', this.usageCache.getFilePath());
+    } else {
+      log('AI usage tracking DISABLED');
+    }
+  }
+
+  /**
+   * Send the prompts to the provider and return the raw text reply.
+   * Throw on transport or API errors; the base class logs them and falls back.
+   * Replies that do not match the response schema surface as InvalidLLMResponseError.
+   */
+  protected abstract sendMessages(request: LLMRequest): Promise<LLMTransportResult>;
+
+  getUsageSummary() {
+    return this.usageCache.getSummary();
+  }
+
+  getUsageCachePath() {
+    return this.usageCache.getFilePath();
+  }
+
+  isUsageTrackingEnabled(): boolean {
+    return this.usageCache.isEnabled();
+  }
+
+  /**
+   * Generate fallback selectors when AI fails
+   */
+  protected generateFallbackSelectors(description: string, platform: Platform = 'web'): string[] {
+    const selectors: string[] = [];
+    const desc = description.toLowerCase();
+
+    // Extract quoted text if present (e.g., 'find text "Powered by"' -> 'Powered by')
+    const quotedMatch = description.match(/"([^"]+)"/);
+    const searchText = quotedMatch ? quotedMatch[1] : description;
+    const escapedText = searchText.replace(/'/g, "\\'");
+
+    // Native hierarchies carry text in attributes, so match those instead of text nodes
+    if (platform !== 'web') {
+      selectors.push(`~${searchText}`);
+      if (platform === 'android') {
+        selectors.push(
+          `android=new UiSelector().textContains("${searchText.replace(/"/g, '\\"')}")`
+        );
+      } else {
+        selectors.push(`-ios predicate string:label CONTAINS "${searchText.replace(/"/g, '\\"')}"`);
+      }
+      selectors.push(
+        `//*[contains(@text, '${escapedText}') or contains(@content-desc, '${escapedText}') or contains(@label, '${escapedText}') or contains(@name, '${escapedText}')]`
+      );
+      return Array.from(new Set(selectors));
+    }
+
+    // Strategy 1: Text contains (most generic)
+    selectors.push(`//*[contains(normalize-space(.), '${escapedText}')]`);
+
+    // Strategy 2: Text exact match
+    selectors.push(`//*[normalize-space(.)='${escapedText}']`);
+
+    // Strategy 3: Element-specific based on keywords
+    if (desc.includes('button') || desc.includes('btn')) {
+      selectors.push(`//button[contains(normalize-space(.), '${escapedText}')]`);
+      selectors.push(`//*[@role='button'][contains(normalize-space(.), '${escapedText}')]`);
+    }
+
+    if (desc.includes('link')) {
+      selectors.push(`//a[contains(normalize-space(.), '${escapedText}')]`);
+    }
+
+    if (desc.includes('input') || desc.includes('field')) {
+      selectors.push(`//input[@placeholder='${escapedText}']`);
+      selectors.push(`//label[contains(., '${escapedText}')]//following-sibling::input`);
+    }
+
+    // Strategy 4: By ID or class (if description looks like an identifier)
+    if (/^[a-zA-Z0-9_-]+$/.test(searchText)) {
+      selectors.push(`#${searchText}`);
+      selectors.push(`[data-testid="${searchText}"]`);
+      selectors.push(`//*[@id='${searchText}']`);
+    }
+
+    // Remove duplicates and return
+    return Array.from(new Set(selectors));
+  }
+
+  async generateLocator(
+    dom: string,
+    description: string,
+    url: string = 'unknown-url',
+    requestTemplate: boolean = false,
+    feedback: string[] = [],
+    context: PromptContext = {}
+  ): Promise<LLMResponse> {
+    log('=== AI Locator Generation Started ===');
+    log('Description:', description);
+    log('URL:', url);
+    log('Model:', this.model);
+    log('DOM length:', dom.length, 'characters');
+    log('Request template:', requestTemplate);
+    log('Structured output:', this.structuredOutput);
+    log('Feedback from previous attempts:', feedback);
+    log('Prompt context:', context);
+
+    const systemPrompt = buildSystemPrompt(requestTemplate, context);
+    const userPrompt = buildUserPrompt(dom, description, feedback, context);
+    const startTime = Date.now();
+
+    let result: LLMTransportResult;
+    try {
+      log(`=== Preparing ${this.aiClientName} API Request ===`);
+      log('API URL:', this.apiUrl);
+      log('Model:', this.model);
+      log('System prompt length:', systemPrompt.length);
+      log('User prompt length:', userPrompt.length);
+      log(`Sending request to ${this.aiClientName} API...`);
+
+      result = await this.sendMessages({
+        systemPrompt,
+        userPrompt,
+        responseSchema: this.structuredOutput ? responseSchemaFor(context) : undefined
+      });
+    } catch (error: any) {
+      log('Response time:', Date.now() - startTime, 'ms');
+      this.logRequestError(error);
+
+      await this.recordUsage({
+        description,
+        url,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+        success: false,
+        error: error.message
+      });
+      log('=== AI Locator Generation Failed ===');
+
+      // Generate multiple fallback selectors
+      const fallbacks = this.generateFallbackSelectors(description, context.platform);
+      log('Using fallback selectors:', fallbacks);
+
+      return {
+        best: fallbacks[0],
+        alternates: fallbacks.slice(1),
+        source: 'fallback',
+        usage: undefined
+      };
+    }
+
+    const duration = Date.now() - startTime;
+    const rawContent = (result.content || '').trim();
+    const usage: LLMUsage = result.usage || {
+      promptTokens: 0,
+      completionTokens: 0,
+      totalTokens: 0
+    };
+
+    log(`✓ ${this.aiClientName} API call successful`);
+    log('Raw response:', rawContent);
+    log('Response time:', duration, 'ms');
+    log('Token usage:', {
+      prompt: usage.promptTokens,
+      completion: usage.completionTokens,
+      total: usage.totalTokens
+    });
+
+    let payload: LocatorResponsePayload;
+    try {
+      payload = parseLocatorResponse(rawContent);
+    } catch (error: any) {
+      // The model answered but not with a usable locator; never treat the text as a selector
+      logError('✗ Invalid LLM response:', error.message);
+      await this.recordUsage({
+        description,
+        url,
+        ...usage,
+        success: false,
+        error: error.message
+      });
+      log('=== AI Locator Generation Failed (retryable) ===');
+      throw error;
+    }
+
+    log('Parsed JSON response:', payload);
+
+    await this.recordUsage({
+      description,
+      url,
+      ...usage,
+      success: true,
+      selector: payload.best
+    });
+    log('=== AI Locator Generation Completed ===');
+
+    return {
+      ...payload,
+      source: 'llm',
+      provider: this.aiClientName,
+      model: this.model,
+      usage: this.usageCache.isEnabled() ? usage : undefined
+    };
+  }
+
+  private logRequestError(error: any) {
+    logError(`=== ${this.aiClientName} API Error ===`);
+    logError('Error type:', error.constructor.name);
+    logError('Error message:', error.message);
+    logError('Error code:', error.code);
+
+    if (error.response) {
+      logError('Response status:', error.response.status);
+      logError('Response status text:', error.response.statusText);
+      logError(
+        `${this.aiClientName} API error response:`,
+        JSON.stringify(error.response.data, null, 2)
+      );
+    } else if (error.request) {
+      logError(`No response received from ${this.aiClientName} API`);
+      logError('Request details:', error.request);
+    } else {
+      logError('Error setting up request:', error.message);
+    }
+  }
+
+  private recordUsage(entry: Omit<UsageEntry, 'timestamp' | 'aiClient' | 'model'>) {
+    return this.usageCache.addUsage({
+      timestamp: new Date().toISOString(),
+      aiClient: this.aiClientName,
+      model: this.model,
+      ...entry
+    });
+  }
+}
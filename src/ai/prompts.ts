@@ -0,0 +1,501 @@
+/**
+ * Prompts shared by every LLM client.
+ * Providers only change how these are sent, never what they say.
+ */
+
+import type { Platform } from '../utils/platform';
+import type { ContextMode } from '../utils/accessibilitySnapshot';
+
+/**
+ * What the DOM in the user prompt represents, so the model can shape its selectors to it
+ */
+export interface PromptContext {
+  /** The DOM is a single container element rather than the whole page */
+  scoped?: boolean;
+  /** The DOM contains open shadow roots wrapped in <wdio-shadow-root> markers */
+  shadowDom?: boolean;
+  /** The DOM contains same-origin frame documents wrapped in <wdio-frame> markers */
+  frames?: boolean;
+  /** 'android' or 'ios' when the DOM is an Appium native view hierarchy (default: 'web') */
+  platform?: Platform;
+  /** What the model is shown: HTML, an accessibility snapshot, or both (default: 'html') */
+  contextMode?: ContextMode;
+  /** Accessibility snapshot text, sent in 'a11y' and 'hybrid' modes */
+  snapshot?: string;
+}
+
+const SCOPED_INSTRUCTIONS = `
+# SCOPE
+The HTML DOM above is one container element, not the whole page.
+- Selectors are evaluated relative to that container, so never include the container itself or its ancestors
+- CSS selectors must target descendants of the container
+- XPath selectors must start with './/' (not '//')
+`;
+
+const SHADOW_DOM_INSTRUCTIONS = `
+# SHADOW DOM
+Content wrapped in <wdio-shadow-root>...</wdio-shadow-root> is the open shadow root of the element that contains the marker. The marker itself is not part of the page.
+- XPath and plain CSS selectors cannot reach elements inside a shadow root
+- For an element inside a shadow root, return a CSS deep selector prefixed with '>>>', e.g. ">>>button.submit" or ">>>[data-testid='save']"
+- Never include the marker tag in a selector
+`;
+
+const FRAMES_INSTRUCTIONS = `
+# FRAMES
+Content wrapped in <wdio-frame path="...">...</wdio-frame> is the document loaded by the iframe right before the marker. Selectors run inside one document at a time.
+- If the element is inside a frame, set "frame" to that marker's path (e.g. "0" or "0.1") and write selectors relative to the frame's own document
+- If the element is in the top-level document, set "frame" to ""
+- best and every alternate must target the same frame
+- Never include the marker tag in a selector
+`;
+
+const SNAPSHOT_LEGEND = `Each line is one element: role "accessible name" [states] [ref=eN]. Indentation shows nesting. Role "text" is plain text inside a non-interactive element.`;
+
+const HYBRID_INSTRUCTIONS = `
+# ACCESSIBILITY SNAPSHOT AND HTML
+${SNAPSHOT_LEGEND}
+- If the element appears in the snapshot, set "ref" to its ref id; its selectors are generated for you
+- Still return your best selectors from the HTML DOM, which may be cut off before the end of the page
+- If the element is not in the snapshot, set "ref" to ""
+`;
+
+const TEMPLATE_INSTRUCTIONS = `
+
+# TEMPLATE LOCATORS
+CRITICAL: The description contains template variables (e.g., {userName}, {itemId}, {username}).
+You MUST generate locator PATTERNS with these placeholders preserved in the selectors.
+
+## Rules for Template Variables:
+1. **Identify the variable** in the description (text in curly braces: {variableName})
+2. **Find how the variable appears in the DOM** (in text content, attributes, data-*, aria-*, etc.)
+3. **Include the {variable} placeholder** in your selector exactly as it appears in the description
+4. **DO NOT replace** {variable} with actual values from the DOM
+5. The locator should work for ANY value when the placeholder is replaced
+
+## Examples:
+
+### Example 1: Variable in attribute
+Description: "Edit button for {userName}"
+DOM: <button data-user="john" aria-label="Edit john">Edit</button>
+Response:
+{
+  "best": "button[data-user='{userName}']",
+  "alternates": [
+    "//button[@data-user='{userName}']",
+    "button[aria-label*='{userName}']",
+    "//button[contains(@aria-label, '{userName}')]"
+  ],
+  "selectorType": "css",
+  "confidence": 0.9,
+  "rationale": "data-user holds the user name"
+}
+
+### Example 2: Variable in text content
+Description: "Status badge showing {status}"
+DOM: <span class="badge">Active</span>
+Response:
+{
+  "best": "span.badge:contains('{status}')",
+  "alternates": [
+    "//span[@class='badge'][contains(., '{status}')]",
+    ".badge:has-text('{status}')",
+    "//span[contains(text(), '{status}')]"
+  ],
+  "selectorType": "css",
+  "confidence": 0.7,
+  "rationale": "the badge text is the status"
+}
+
+### Example 3: Variable in contextual element
+Description: "Profile section for {username}"
+DOM: <div data-testid="profile" data-username="ava-souza">...</div>
+Response:
+{
+  "best": "div[data-testid='profile'][data-username='{username}']",
+  "alternates": [
+    "//div[@data-testid='profile'][@data-username='{username}']",
+    "[data-username='{username}'][data-testid='profile']",
+    "//div[@data-username='{username}']"
+  ],
+  "selectorType": "css",
+  "confidence": 0.9,
+  "rationale": "data-username identifies the profile"
+}
+
+### Example 4: Contextual description (variable NOT in element)
+Description: "Right sidebar container for {username}"
+DOM: <div class="sidebar-right" data-testid="sidebar">...</div>
+Note: If variable is NOT present in the element's attributes or text, use stable selectors without the variable:
+{
+  "best": "div[data-testid='sidebar'].sidebar-right",
+  "alternates": [
+    "//div[@data-testid='sidebar'][contains(@class, 'sidebar-right')]",
+    ".sidebar-right[data-testid='sidebar']"
+  ],
+  "selectorType": "css",
+  "confidence": 0.8,
+  "rationale": "the variable is not on the element, so stable attributes are used"
+}
+
+## Key Point:
+ONLY include {variable} in the selector IF you can find it in the element's:
+- Attributes (id, class, data-*, aria-*, name, etc.)
+- Text content
+- Child element text/attributes that reference the variable
+
+If the variable is purely contextual (describes the page state, not the element), generate stable selectors without it.`;
+
+const SELECTOR_TYPE_NAMES: Record<Exclude<Platform, 'web'>, string> = {
+  android: '"accessibility id", "android uiautomator" or "xpath"',
+  ios: '"accessibility id", "ios predicate" or "xpath"'
+};
+
+const NATIVE_SELECTORS: Record<Exclude<Platform, 'web'>, string> = {
+  android: `# SELECTOR PRIORITY (Use in this order)
+1. Accessibility id from content-desc → ~Login
+   selectorType: "accessibility id"
+2. UiSelector by resource-id → android=new UiSelector().resourceId("com.example:id/login")
+   selectorType: "android uiautomator"
+3. UiSelector by exact text → android=new UiSelector().text("Log in")
+4. UiSelector combining class and text → android=new UiSelector().className("android.widget.Button").textContains("Log")
+5. XPath on attributes → //android.widget.Button[@text="Log in"]
+   selectorType: "xpath"
+
+# EXAMPLE
+HIERARCHY: <android.widget.Button text="Log in" resource-id="com.example:id/login"/>
+Task: "login button"
+Response:
+{
+  "best": "android=new UiSelector().resourceId(\\"com.example:id/login\\")",
+  "alternates": [
+    "android=new UiSelector().text(\\"Log in\\")",
+    "//android.widget.Button[@resource-id='com.example:id/login']",
+    "//android.widget.Button[@text='Log in']"
+  ],
+  "selectorType": "android uiautomator",
+  "confidence": 0.95,
+  "rationale": "the resource-id is unique"
+}`,
+  ios: `# SELECTOR PRIORITY (Use in this order)
+1. Accessibility id from name → ~login
+   selectorType: "accessibility id"
+2. Predicate string on name, label or value → -ios predicate string:label == "Log in" AND type == "XCUIElementTypeButton"
+   selectorType: "ios predicate"
+3. XPath on attributes → //XCUIElementTypeButton[@label="Log in"]
+   selectorType: "xpath"
+
+# EXAMPLE
+HIERARCHY: <XCUIElementTypeButton name="login" label="Log in"/>
+Task: "login button"
+Response:
+{
+  "best": "~login",
+  "alternates": [
+    "-ios predicate string:label == \\"Log in\\" AND type == \\"XCUIElementTypeButton\\"",
+    "//XCUIElementTypeButton[@name='login']",
+    "//XCUIElementTypeButton[@label='Log in']"
+  ],
+  "selectorType": "accessibility id",
+  "confidence": 0.95,
+  "rationale": "the accessibility id is unique"
+}`
+};
+
+/**
+ * System prompt describing the task, output format and selector priorities
+ */
+export function buildSystemPrompt(
+  requestTemplate: boolean = false,
+  context: PromptContext = {}
+): string {
+  const platform = context.platform ?? 'web';
+  if (platform !== 'web') return buildNativeSystemPrompt(platform, requestTemplate);
+  if (context.contextMode === 'a11y') return A11Y_SYSTEM_PROMPT;
+
+  return `You are an expert at finding elements in HTML and generating precise, stable selectors for web automation.${requestTemplate ? TEMPLATE_INSTRUCTIONS : ''}
+
+# YOUR TASK
+Analyze the provided HTML DOM and find the element that matches the user's description. Return multiple selector options as JSON.
+
+# CRITICAL OUTPUT FORMAT
+You MUST return valid JSON in this exact format:
+{
+  "best": "your best selector here",
+  "alternates": ["alternate1", "alternate2", "alternate3"],
+  "selectorType": "css" or "xpath" (type of the best selector),
+  "confidence": number between 0 and 1 (how sure you are the best selector matches the described element),
+  "rationale": "one short sentence on why the best selector matches"
+}
+All five fields are required. Never answer with prose or a bare selector.
+
+# STEP-BY-STEP APPROACH
+1. READ the user's description carefully - what are they looking for?
+2. SEARCH the provided DOM for matching elements
+3. IDENTIFY the element's unique characteristics (id, class, text, attributes)
+4. GENERATE 3-4 different selectors from most stable to least stable
+5. RETURN as JSON with "best", "alternates", "selectorType", "confidence" and "rationale"
+
+# SELECTOR PRIORITY (Use in this order)
+1. data-testid, data-test, data-qa → [data-testid="value"]
+2. Unique semantic ID → #login-button
+3. ARIA attributes → [aria-label="Submit"]
+4. Name attribute → [name="username"]
+5. Unique class → .submit-button
+6. Element + text → //button[contains(., "Submit")]
+7. Combined attributes → button[type="submit"][class*="primary"]
+
+# CSS SELECTOR PATTERNS
+✓ GOOD:
+  - #username
+  - [data-testid="login-btn"]
+  - button[type="submit"]
+  - input[name="email"]
+  - [aria-label="Close dialog"]
+
+✗ AVOID:
+  - #root-abc123 (generated ID)
+  - .class1.class2.class3.class4 (too specific)
+  - body > div > div > span (fragile structure)
+
+# XPATH PATTERNS (When CSS won't work)
+✓ GOOD:
+  - //button[contains(., "Login")]
+  - //input[@placeholder="Email"]
+  - //*[contains(normalize-space(.), "Powered by")]
+  - //a[contains(@href, "/login")]
+  - //*[@role="button"][contains(., "Submit")]
+  - //label[contains(., "Username")]//following-sibling::input
+
+✗ AVOID:
+  - /html/body/div[1]/div[2]/button (absolute path)
+  - //div[1]//span[2] (positional predicates)
+  - //div[@style="color: red"] (inline styles)
+
+# TEXT MATCHING RULES
+When description mentions finding TEXT (e.g., "find Powered by text"):
+1. Look for ANY element containing that text
+2. Use: //*[contains(normalize-space(.), "exact text")]
+3. Or: //div[contains(., "text")] for specific element type
+4. Or: //a[contains(., "text")] for links
+
+# IMPORTANT XPATH FUNCTIONS
+- normalize-space(.) → Handles whitespace: //button[normalize-space(.)="Login"]
+- contains() → Partial match: //*[contains(@class, "btn")]
+- text() → Direct text: //*[text()="exact"]
+- translate() → Case insensitive: //button[contains(translate(., 'ABC', 'abc'), 'login')]
+
+# REAL EXAMPLES
+
+Example 1 - Find by text:
+DOM: <div>Powered by <a href="...">Selenium</a></div>
+Task: "find Powered by text"
+Response:
+{
+  "best": "//*[contains(normalize-space(.), 'Powered by')]",
+  "alternates": [
+    "//*[contains(text(), 'Powered by')]",
+    "//div[contains(., 'Powered by')]"
+  ],
+  "selectorType": "xpath",
+  "confidence": 0.8,
+  "rationale": "the text sits directly in the div"
+}
+
+Example 2 - Find button:
+DOM: <button id="submit" type="submit" class="btn-primary">Login</button>
+Task: "login button"
+Response:
+{
+  "best": "#submit",
+  "alternates": [
+    "button[type='submit']",
+    "//button[contains(., 'Login')]",
+    ".btn-primary"
+  ],
+  "selectorType": "css",
+  "confidence": 0.95,
+  "rationale": "the id is unique and semantic"
+}
+
+Example 3 - Find input:
+DOM: <input name="username" id="user" placeholder="Enter username">
+Task: "username input"
+Response:
+{
+  "best": "#user",
+  "alternates": [
+    "input[name='username']",
+    "//input[@placeholder='Enter username']"
+  ],
+  "selectorType": "css",
+  "confidence": 0.95,
+  "rationale": "the id is unique"
+}
+
+# REMEMBER
+- Return ONLY valid JSON, no explanation
+- Provide 3-4 alternates for fallback
+- Test selectors mentally against the DOM
+- Prioritize stability over brevity`;
+}
+
+/**
+ * User prompt carrying the DOM, the element description and any feedback from earlier attempts
+ */
+export function buildUserPrompt(
+  dom: string,
+  description: string,
+  feedback: string[] = [],
+  context: PromptContext = {}
+): string {
+  if (context.contextMode === 'a11y') {
+    return buildSnapshotUserPrompt(context.snapshot ?? dom, description, feedback);
+  }
+
+  const platform = context.platform ?? 'web';
+  const hybrid = context.contextMode === 'hybrid';
+  const heading =
+    platform === 'web'
+      ? 'HTML DOM'
+      : `${platform === 'android' ? 'ANDROID' : 'IOS'} VIEW HIERARCHY`;
+
+  const snapshotSection = hybrid
+    ? `# ACCESSIBILITY SNAPSHOT
+${context.snapshot ?? ''}
+${HYBRID_INSTRUCTIONS}
+`
+    : '';
+
+  return `${snapshotSection}# ${heading}
+${dom}
+${context.scoped ? SCOPED_INSTRUCTIONS : ''}${context.shadowDom ? SHADOW_DOM_INSTRUCTIONS : ''}${context.frames ? FRAMES_INSTRUCTIONS : ''}
+# TASK
+${description}
+${buildFeedbackSection(feedback)}
+# INSTRUCTIONS
+1. Carefully examine the ${heading} above
+2. Find the element(s) that match the task description
+3. Generate 4 different selectors (from most stable to least stable)
+4. Return ONLY valid JSON (no markdown, no explanation)
+
+# OUTPUT FORMAT
+{
+  "best": "most stable selector",
+  "alternates": ["alternate1", "alternate2", "alternate3"],
+  "selectorType": "${platform === 'web' ? 'css' : 'accessibility id'}",
+  "confidence": 0.9,
+  "rationale": "why the best selector matches"${hybrid ? ',\n  "ref": "e12"' : ''}
+}
+
+Note: If task mentions "text" or "contains", look for elements with that text content.`;
+}
+
+/**
+ * System prompt for Appium native contexts: the input is a view hierarchy and the answer uses
+ * Appium selector strategies, since CSS does not exist there
+ */
+function buildNativeSystemPrompt(
+  platform: Exclude<Platform, 'web'>,
+  requestTemplate: boolean
+): string {
+  const name = platform === 'android' ? 'Android' : 'iOS';
+  const templateNote = requestTemplate
+    ? `
+
+# TEMPLATE LOCATORS
+The description contains template variables (e.g. {userName}). Keep the {variable} placeholders in your selectors wherever the value appears in the element's attributes, e.g. ~Edit {userName}. Never replace them with values from the hierarchy.`
+    : '';
+
+  return `You are an expert at finding elements in ${name} app view hierarchies and generating precise, stable Appium selectors for WebdriverIO mobile automation.${templateNote}
+
+# YOUR TASK
+Analyze the provided ${name} view hierarchy (XML from Appium's page source) and find the element that matches the user's description. Return multiple selector options as JSON.
+
+# CRITICAL OUTPUT FORMAT
+You MUST return valid JSON in this exact format:
+{
+  "best": "your best selector here",
+  "alternates": ["alternate1", "alternate2", "alternate3"],
+  "selectorType": one of ${SELECTOR_TYPE_NAMES[platform]} (type of the best selector),
+  "confidence": number between 0 and 1 (how sure you are the best selector matches the described element),
+  "rationale": "one short sentence on why the best selector matches"
+}
+All five fields are required. Never answer with prose or a bare selector.
+CSS selectors do not work in native apps. Never return one.
+
+${NATIVE_SELECTORS[platform]}
+
+# REMEMBER
+- Return ONLY valid JSON, no explanation
+- Provide 3-4 alternates for fallback
+- Element names in the hierarchy are class names (${platform === 'android' ? 'android.widget.Button' : 'XCUIElementTypeButton'}), usable in XPath
+- Avoid positional XPath and indexes; prefer ids, accessibility ids and text`;
+}
+
+const A11Y_SYSTEM_PROMPT = `You are an expert at finding elements on web pages from their accessibility tree, for web automation.
+
+# YOUR TASK
+You receive an accessibility snapshot of the page. ${SNAPSHOT_LEGEND}
+Find the entry that matches the user's description and answer with its ref id. Durable selectors for every ref are generated automatically, so never write selectors yourself.
+
+# CRITICAL OUTPUT FORMAT
+You MUST return valid JSON in this exact format:
+{
+  "ref": "ref id of the matching entry, e.g. e12",
+  "confidence": number between 0 and 1 (how sure you are the entry is the described element),
+  "rationale": "one short sentence on why the entry matches"
+}
+All three fields are required. Never answer with prose or a bare ref.
+
+# MATCHING RULES
+1. Match the role first: "button" means role button, "link" means role link, "field" or "input" means textbox, searchbox, combobox or spinbutton
+2. Then match the accessible name, allowing for different wording and case
+3. Use nesting to disambiguate (e.g. "Delete button in the second row", "Email field in the login form")
+4. For text lookups ("Powered by text"), pick the entry whose name contains that text
+5. Prefer an entry that is not [disabled] unless the description says otherwise
+
+# EXAMPLE
+Snapshot:
+- form "Login" [ref=e1]
+  - textbox "Email" [required] [ref=e2]
+  - textbox "Password" [required] [ref=e3]
+  - button "Sign in" [ref=e4]
+Task: "sign in button"
+Response:
+{
+  "ref": "e4",
+  "confidence": 0.95,
+  "rationale": "the only button named Sign in"
+}
+
+# REMEMBER
+- Return ONLY valid JSON, no explanation
+- Only use ref ids that appear in the snapshot`;
+
+/**
+ * User prompt for 'a11y' mode: the snapshot replaces the DOM and the answer is a ref
+ */
+function buildSnapshotUserPrompt(snapshot: string, description: string, feedback: string[]) {
+  return `# ACCESSIBILITY SNAPSHOT
+${snapshot}
+
+# TASK
+${description}
+${buildFeedbackSection(feedback)}
+# OUTPUT FORMAT
+{
+  "ref": "e12",
+  "confidence": 0.9,
+  "rationale": "why the entry matches"
+}`;
+}
+
+function buildFeedbackSection(feedback: string[]): string {
+  if (feedback.length === 0) return '';
+  return `
+# PREVIOUS ATTEMPTS
+These selectors were already tried against the page and failed:
+${feedback.map((note) => `- ${note}`).join('\n')}
+Do not return any of them again, as best or as an alternate. Use a different attribute, text or structure.
+`;
+}
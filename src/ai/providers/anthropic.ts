@@ -0,0 +1,70 @@
+import axios from 'axios';
+import { log } from '../../utils/logger';
+import { BaseLLMClient, LLMRequest, LLMTransportResult } from '../baseLLMClient';
+
+/**
+ * Anthropic Messages API client.
+ * The system prompt travels in its own field and auth uses the x-api-key header.
+ * There is no JSON mode; the prompt and schema validation in BaseLLMClient enforce the format.
+ */
+export class AnthropicClient extends BaseLLMClient {
+  private apiKey: string;
+  private apiVersion: string;
+
+  constructor(
+    apiKey: string,
+    model: string = 'claude-3-5-haiku-latest',
+    enableUsageTracking: boolean = false,
+    usageCachePath?: string,
+    baseUrl: string = 'https://api.anthropic.com/v1/messages',
+    apiVersion: string = '2023-06-01'
+  ) {
+    super('Anthropic', model, baseUrl, enableUsageTracking, usageCachePath);
+    this.apiKey = apiKey;
+    this.apiVersion = apiVersion;
+  }
+
+  protected async sendMessages({
+    systemPrompt,
+    userPrompt
+  }: LLMRequest): Promise<LLMTransportResult> {
+    log('API Key present:', !!this.apiKey);
+    log('API Key length:', this.apiKey?.length || 0);
+
+    const response = await axios.post(
+      this.apiUrl,
+      {
+        model: this.model,
+        system: systemPrompt,
+        messages: [{ role: 'user', content: userPrompt }],
+        temperature: 0.3,
+        max_tokens: 500
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': this.apiVersion
+        }
+      }
+    );
+
+    // Content is a list of blocks; only text blocks carry the answer
+    const content = (response.data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    const usage = response.data.usage;
+
+    return {
+      content,
+      usage: usage
+        ? {
+            promptTokens: usage.input_tokens || 0,
+            completionTokens: usage.output_tokens || 0,
+            totalTokens: (usage.input_tokens || 0) + (usage.output_tokens || 0)
+          }
+        : undefined
+    };
+  }
+}
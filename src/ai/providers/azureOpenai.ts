@@ -0,0 +1,62 @@
+import axios from 'axios';
+import { log } from '../../utils/logger';
+import { BaseLLMClient, LLMRequest, LLMTransportResult } from '../baseLLMClient';
+import { parseChatCompletion, jsonSchemaResponseFormat } from './openai';
+
+/**
+ * Azure OpenAI client.
+ * Requests go to a deployment URL with an api-version query and authenticate with the
+ * api-key header; the deployment selects the model, so no model field is sent.
+ */
+export class AzureOpenAIClient extends BaseLLMClient {
+  private apiKey: string;
+
+  constructor(
+    apiKey: string,
+    resourceEndpoint: string,
+    deployment: string,
+    apiVersion: string = '2024-10-21',
+    enableUsageTracking: boolean = false,
+    usageCachePath?: string
+  ) {
+    const endpoint = resourceEndpoint.replace(/\/+$/, '');
+    super(
+      'Azure-OpenAI',
+      deployment,
+      `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+      enableUsageTracking,
+      usageCachePath
+    );
+    this.apiKey = apiKey;
+  }
+
+  protected async sendMessages({
+    systemPrompt,
+    userPrompt,
+    responseSchema
+  }: LLMRequest): Promise<LLMTransportResult> {
+    log('API Key present:', !!this.apiKey);
+    log('API Key length:', this.apiKey?.length || 0);
+
+    const response = await axios.post(
+      this.apiUrl,
+      {
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.3,
+        max_tokens: 500,
+        ...(responseSchema && { response_format: jsonSchemaResponseFormat(responseSchema) })
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'api-key': this.apiKey
+        }
+      }
+    );
+
+    return parseChatCompletion(response.data);
+  }
+}
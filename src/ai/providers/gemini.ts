@@ -0,0 +1,82 @@
+import axios from 'axios';
+import { log } from '../../utils/logger';
+import { BaseLLMClient, LLMRequest, LLMTransportResult } from '../baseLLMClient';
+
+/**
+ * Gemini accepts an OpenAPI subset that has no additionalProperties keyword
+ */
+function toGeminiSchema(schema: Record<string, any>): Record<string, any> {
+  const { additionalProperties: _ignored, ...rest } = schema;
+  return rest;
+}
+
+/**
+ * Google Gemini client using the generateContent REST API.
+ * The system prompt maps onto systemInstruction and the user prompt onto contents.
+ */
+export class GeminiClient extends BaseLLMClient {
+  private apiKey: string;
+
+  constructor(
+    apiKey: string,
+    model: string = 'gemini-1.5-flash',
+    enableUsageTracking: boolean = false,
+    usageCachePath?: string,
+    baseUrl: string = 'https://generativelanguage.googleapis.com/v1beta'
+  ) {
+    super(
+      'Gemini',
+      model,
+      `${baseUrl.replace(/\/+$/, '')}/models/${encodeURIComponent(model)}:generateContent`,
+      enableUsageTracking,
+      usageCachePath
+    );
+    this.apiKey = apiKey;
+  }
+
+  protected async sendMessages({
+    systemPrompt,
+    userPrompt,
+    responseSchema
+  }: LLMRequest): Promise<LLMTransportResult> {
+    log('API Key present:', !!this.apiKey);
+    log('API Key length:', this.apiKey?.length || 0);
+
+    const response = await axios.post(
+      this.apiUrl,
+      {
+        systemInstruction: { parts: [{ text: systemPrompt }] },
+        contents: [{ role: 'user', parts: [{ text: userPrompt }] }],
+        generationConfig: {
+          temperature: 0.3,
+          maxOutputTokens: 500,
+          ...(responseSchema && {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(responseSchema)
+          })
+        }
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': this.apiKey
+        }
+      }
+    );
+
+    const parts = response.data.candidates?.[0]?.content?.parts || [];
+    const content = parts.map((part: any) => part.text || '').join('');
+    const usage = response.data.usageMetadata;
+
+    return {
+      content,
+      usage: usage
+        ? {
+            promptTokens: usage.promptTokenCount || 0,
+            completionTokens: usage.candidatesTokenCount || 0,
+            totalTokens: usage.totalTokenCount || 0
+          }
+        : undefined
+    };
+  }
+}
@@ -0,0 +1,54 @@
+import axios from 'axios';
+import { BaseLLMClient, LLMRequest, LLMTransportResult } from '../baseLLMClient';
+
+export class OllamaClient extends BaseLLMClient {
+  constructor(
+    model: string = 'llama3',
+    enableUsageTracking: boolean = false,
+    usageCachePath?: string,
+    baseUrl: string = 'http://localhost:11434'
+  ) {
+    super('Ollama', model, `${baseUrl}/api/chat`, enableUsageTracking, usageCachePath);
+  }
+
+  protected async sendMessages({
+    systemPrompt,
+    userPrompt,
+    responseSchema
+  }: LLMRequest): Promise<LLMTransportResult> {
+    const response = await axios.post(
+      this.apiUrl,
+      {
+        model: this.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        stream: false,
+        ...(responseSchema && { format: 'json' }),
+        options: {
+          temperature: 0.3,
+          num_predict: 500
+        }
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+
+    // Ollama reports token counts as prompt_eval_count / eval_count
+    const promptTokens = response.data.prompt_eval_count || 0;
+    const completionTokens = response.data.eval_count || 0;
+
+    return {
+      content: response.data.message.content,
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      }
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import axios from 'axios';
+import { log } from '../../utils/logger';
+import { BaseLLMClient, LLMRequest, LLMTransportResult } from '../baseLLMClient';
+
+/**
+ * OpenAI-style structured output parameter for a JSON schema
+ */
+export function jsonSchemaResponseFormat(schema: Record<string, any>) {
+  return {
+    type: 'json_schema',
+    json_schema: { name: 'locator_response', strict: true, schema }
+  };
+}
+
+/**
+ * Map an OpenAI-style chat completion response into the shared transport result
+ */
+export function parseChatCompletion(data: any): LLMTransportResult {
+  const usage = data.usage;
+  return {
+    content: data.choices[0].message.content,
+    usage: usage
+      ? {
+          promptTokens: usage.prompt_tokens || 0,
+          completionTokens: usage.completion_tokens || 0,
+          totalTokens: usage.total_tokens || 0
+        }
+      : undefined
+  };
+}
+
+export class OpenAIClient extends BaseLLMClient {
+  private apiKey: string;
+
+  constructor(
+    apiKey: string,
+    model: string = 'gpt-4o-mini',
+    enableUsageTracking: boolean = false,
+    usageCachePath?: string,
+    baseUrl?: string
+  ) {
+    super(
+      'OpenAI',
+      model,
+      baseUrl || 'https://api.openai.com/v1/chat/completions',
+      enableUsageTracking,
+      usageCachePath
+    );
+    this.apiKey = apiKey;
+  }
+
+  protected async sendMessages({
+    systemPrompt,
+    userPrompt,
+    responseSchema
+  }: LLMRequest): Promise<LLMTransportResult> {
+    log('API Key present:', !!this.apiKey);
+    log('API Key length:', this.apiKey?.length || 0);
+
+    const response = await axios.post(
+      this.apiUrl,
+      {
+        model: this.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.3,
+        max_tokens: 500,
+        ...(responseSchema && { response_format: jsonSchemaResponseFormat(responseSchema) })
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`
+        }
+      }
+    );
+
+    return parseChatCompletion(response.data);
+  }
+}
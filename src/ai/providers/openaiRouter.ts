@@ -0,0 +1,52 @@
+import axios from 'axios';
+import { log } from '../../utils/logger';
+import { BaseLLMClient, LLMRequest, LLMTransportResult } from '../baseLLMClient';
+import { parseChatCompletion, jsonSchemaResponseFormat } from './openai';
+
+export class OpenAIRouterClient extends BaseLLMClient {
+  private apiKey: string;
+
+  constructor(
+    apiKey: string,
+    model: string = 'gpt-4o-mini',
+    enableUsageTracking: boolean = false,
+    usageCachePath?: string,
+    baseUrl: string = 'https://openrouter.ai/api/v1/chat/completions'
+  ) {
+    super('OpenAI-Router', model, baseUrl, enableUsageTracking, usageCachePath);
+    this.apiKey = apiKey;
+  }
+
+  protected async sendMessages({
+    systemPrompt,
+    userPrompt,
+    responseSchema
+  }: LLMRequest): Promise<LLMTransportResult> {
+    log('API Key present:', !!this.apiKey);
+    log('API Key length:', this.apiKey?.length || 0);
+
+    const response = await axios.post(
+      this.apiUrl,
+      {
+        model: this.model,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.3,
+        max_tokens: 500,
+        ...(responseSchema && { response_format: jsonSchemaResponseFormat(responseSchema) })
+      },
+      {
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.apiKey}`,
+          'HTTP-Referer': 'https://github.com/wdio-ai-locator-service',
+          'X-Title': 'WDIO AI Locator Service'
+        }
+      }
+    );
+
+    return parseChatCompletion(response.data);
+  }
+}
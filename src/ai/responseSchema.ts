@@ -0,0 +1,194 @@
+/**
+ * Structured contract every LLM answer must satisfy.
+ * Sent to providers that support JSON-schema output and checked on every reply, so prose
+ * or a bare string can never be mistaken for a selector.
+ */
+
+import type { Platform } from '../utils/platform';
+import type { ContextMode } from '../utils/accessibilitySnapshot';
+
+export type SelectorType =
+  'css' | 'xpath' | 'accessibility id' | 'android uiautomator' | 'ios predicate';
+
+/** Selector types the model may answer with on each platform */
+export const SELECTOR_TYPES: Record<Platform, SelectorType[]> = {
+  web: ['css', 'xpath'],
+  android: ['accessibility id', 'android uiautomator', 'xpath'],
+  ios: ['accessibility id', 'ios predicate', 'xpath']
+};
+
+export interface LocatorResponsePayload {
+  /** Empty when the model answered with a ref only */
+  best: string;
+  alternates: string[];
+  /** Absent when the model answered with a ref only */
+  selectorType?: SelectorType;
+  confidence: number;
+  rationale: string;
+  /** Path of the frame holding the element ('0.1'); only requested when frames are captured */
+  frame?: string;
+  /** Ref id of the chosen accessibility snapshot entry ('e12'); only requested with a snapshot */
+  ref?: string;
+}
+
+export const LOCATOR_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    best: { type: 'string', description: 'Most stable selector for the described element' },
+    alternates: {
+      type: 'array',
+      items: { type: 'string' },
+      description: 'Fallback selectors, most stable first'
+    },
+    selectorType: { type: 'string', enum: ['css', 'xpath'] },
+    confidence: { type: 'number', description: 'Confidence from 0 to 1' },
+    rationale: { type: 'string', description: 'Why the best selector matches' }
+  },
+  required: ['best', 'alternates', 'selectorType', 'confidence', 'rationale'],
+  additionalProperties: false
+};
+
+const REF_PROPERTY = {
+  type: 'string',
+  description: 'Ref id of the matching accessibility snapshot entry, e.g. "e12"'
+};
+
+/**
+ * Response schema for a request. Native platforms get their own selector types. When the DOM
+ * includes frames, a required "frame" field carries the path of the frame the selectors belong
+ * to ('' for the top-level document). With an accessibility snapshot the model answers with a
+ * "ref": on its own in 'a11y' mode, next to the selectors ('' when it has none) in 'hybrid' mode.
+ */
+export function responseSchemaFor(
+  options: { frames?: boolean; platform?: Platform; contextMode?: ContextMode } = {}
+) {
+  const platform = options.platform ?? 'web';
+  const contextMode = options.contextMode ?? 'html';
+  if (contextMode === 'a11y') {
+    return {
+      type: 'object',
+      properties: {
+        ref: REF_PROPERTY,
+        confidence: LOCATOR_RESPONSE_SCHEMA.properties.confidence,
+        rationale: LOCATOR_RESPONSE_SCHEMA.properties.rationale
+      },
+      required: ['ref', 'confidence', 'rationale'],
+      additionalProperties: false
+    };
+  }
+  if (!options.frames && platform === 'web' && contextMode === 'html') {
+    return LOCATOR_RESPONSE_SCHEMA;
+  }
+
+  const properties: Record<string, any> = {
+    ...LOCATOR_RESPONSE_SCHEMA.properties,
+    selectorType: { type: 'string', enum: SELECTOR_TYPES[platform] }
+  };
+  const required = [...LOCATOR_RESPONSE_SCHEMA.required];
+  if (options.frames) {
+    properties.frame = {
+      type: 'string',
+      description: 'Path of the wdio-frame holding the element, empty for the top-level document'
+    };
+    required.push('frame');
+  }
+  if (contextMode === 'hybrid') {
+    properties.ref = { ...REF_PROPERTY, description: `${REF_PROPERTY.description}, or ''` };
+    required.push('ref');
+  }
+  return { ...LOCATOR_RESPONSE_SCHEMA, properties, required };
+}
+
+/**
+ * Thrown when the model reply is not valid JSON or does not match LOCATOR_RESPONSE_SCHEMA.
+ * The request itself worked, so asking again may succeed.
+ */
+export class InvalidLLMResponseError extends Error {
+  readonly retryable = true;
+  readonly rawContent: string;
+
+  constructor(message: string, rawContent: string) {
+    super(message);
+    this.name = 'InvalidLLMResponseError';
+    this.rawContent = rawContent;
+  }
+}
+
+/**
+ * Parse and validate a model reply. Markdown code fences are tolerated for providers
+ * without a native JSON mode.
+ * @throws InvalidLLMResponseError when the reply does not satisfy the schema
+ */
+export function parseLocatorResponse(rawContent: string): LocatorResponsePayload {
+  const cleaned = rawContent
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch (_error) {
+    throw new InvalidLLMResponseError('LLM response is not valid JSON', rawContent);
+  }
+
+  const errors: string[] = [];
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new InvalidLLMResponseError('LLM response is not a JSON object', rawContent);
+  }
+  if (parsed.ref !== undefined && typeof parsed.ref !== 'string') {
+    errors.push('"ref" must be a string');
+  }
+  // A ref stands in for the selectors, which then become optional
+  const hasRef = typeof parsed.ref === 'string' && parsed.ref.trim() !== '';
+  if (
+    hasRef ? !isOptionalString(parsed.best) : typeof parsed.best !== 'string' || !parsed.best.trim()
+  ) {
+    errors.push('"best" must be a non-empty string');
+  }
+  if (
+    (!hasRef || parsed.alternates !== undefined) &&
+    (!Array.isArray(parsed.alternates) ||
+      parsed.alternates.some((alt: unknown) => typeof alt !== 'string'))
+  ) {
+    errors.push('"alternates" must be an array of strings');
+  }
+  const selectorTypes = Array.from(new Set(Object.values(SELECTOR_TYPES).flat()));
+  if (
+    (!hasRef || parsed.selectorType !== undefined) &&
+    !selectorTypes.includes(parsed.selectorType)
+  ) {
+    errors.push(`"selectorType" must be one of ${selectorTypes.map((t) => `"${t}"`).join(', ')}`);
+  }
+  if (typeof parsed.confidence !== 'number' || parsed.confidence < 0 || parsed.confidence > 1) {
+    errors.push('"confidence" must be a number between 0 and 1');
+  }
+  // The rationale is informational only, so a missing one is tolerated
+  if (parsed.rationale !== undefined && typeof parsed.rationale !== 'string') {
+    errors.push('"rationale" must be a string');
+  }
+  if (parsed.frame !== undefined && typeof parsed.frame !== 'string') {
+    errors.push('"frame" must be a string');
+  }
+
+  if (errors.length > 0) {
+    throw new InvalidLLMResponseError(
+      `LLM response does not match the schema: ${errors.join('; ')}`,
+      rawContent
+    );
+  }
+
+  return {
+    best: (parsed.best ?? '').trim(),
+    alternates: (parsed.alternates ?? []).filter((alt: string) => alt.trim()),
+    ...(parsed.selectorType ? { selectorType: parsed.selectorType } : {}),
+    confidence: parsed.confidence,
+    rationale: parsed.rationale || '',
+    ...(parsed.frame ? { frame: parsed.frame.trim() } : {}),
+    ...(hasRef ? { ref: parsed.ref.trim() } : {})
+  };
+}
+
+function isOptionalString(value: unknown): boolean {
+  return value === undefined || typeof value === 'string';
+}
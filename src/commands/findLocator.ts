@@ -1,8 +1,10 @@
 import type { Browser } from 'webdriverio';
-import { LocatorEngine } from '../locator/locatorEngine';
-import { LocatorCache } from '../locator/cache';
-import { AiLocatorProvider } from '../locator/aiLocatorProvider';
-import { log } from '../utils/logger';
+import { LocatorEngine, LocatorScope, createLocatorEngine } from '../locator/locatorEngine';
+import { VerificationLevel, strictestLevel } from '../locator/verification';
+import { currentFramePath, switchToFramePath } from '../locator/frames';
+import { registerHealOnAction, trackForHealing } from './healOnAction';
+import { log, logWarn } from '../utils/logger';
+import { detectPlatform, getPageKey } from '../utils/platform';
 import {
   interpolateTemplate,
   hasTemplateVariables,
@@ -11,25 +13,44 @@ import {
 
 type CacheStrategy = 'template' | 'resolved' | 'smart';
 
-export function registerAiLocator(browser: Browser, options?: any) {
-  if (!options?.llmClient) {
+interface AiLocatorOptions {
+  alwaysAI?: boolean;
+  autoHeal?: boolean;
+  variables?: Record<string, string | number> | (() => Record<string, string | number>);
+  cacheBy?: CacheStrategy;
+  verification?: VerificationLevel;
+  healOnAction?: boolean;
+}
+
+// A resolved selector and the frame it applies in (absent for the top-level document)
+interface ResolvedLocator {
+  selector: string;
+  frame?: number[];
+}
+
+/**
+ * Register the AI commands on a browser. Pass the service's engine as `engine` to share its
+ * cache; otherwise one is created from `llmClient` and the other service options. Returns the
+ * engine; without the service, call engine.cache.flush() at the end to persist cache hits.
+ */
+export function registerAiLocator(browser: Browser, options?: any): LocatorEngine {
+  if (!options?.engine && !options?.llmClient) {
     throw new Error('LLM client is required for aiLocator command');
   }
 
-  const provider = new AiLocatorProvider(options.llmClient);
-  const cache = new LocatorCache(options?.cachePath);
-  const maxRetries = options?.maxRetries ?? 2; // Default to 2 retries
-  const engine = new LocatorEngine(cache, provider, maxRetries);
+  const engine: LocatorEngine = options.engine ?? createLocatorEngine(options.llmClient, options);
+  const healOnAction = options?.healOnAction ?? false;
 
-  // Store resolved selectors in a Map to cache them per description
-  const selectorCache = new Map<string, string>();
-  const inflightSelectors = new Map<string, Promise<string>>();
+  // Concurrent lookups for the same element share one engine call
+  const inflightSelectors = new Map<string, Promise<ResolvedLocator>>();
 
   // Initialize AI context if not exists
   if (!(browser as any).aiContext) {
     (browser as any).aiContext = {};
   }
 
+  // The engine's cache holds every resolved selector in memory and writes through to disk; hits
+  // are verified there on each call, so stale entries are healed like any other
   const resolveSelector = async (
     ctx: Browser,
     cacheKeyDescription: string,
@@ -37,119 +58,124 @@ export function registerAiLocator(browser: Browser, options?: any) {
     actualDescription?: string,
     variables?: Record<string, string | number>,
     requestTemplate: boolean = false,
-    autoHeal: boolean = true
-  ): Promise<string> => {
-    const url = await ctx.getUrl().catch(() => 'unknown-url');
-    const cacheKey = `${url}::${cacheKeyDescription}`;
+    autoHeal: boolean = true,
+    verification?: VerificationLevel,
+    scope?: LocatorScope,
+    multiple: boolean = false
+  ): Promise<ResolvedLocator> => {
+    const url = await getPageKey(ctx as WebdriverIO.Browser);
+    const level = verification ?? engine.verification;
+    // Lookups at different levels verify differently, so they do not share a pending call
+    const cacheKey = engine.buildKey(url, cacheKeyDescription, scope?.key, multiple);
+    // Containers found with the same selector share cache entries but not pending calls
+    const inflightKey = scope
+      ? `${cacheKey}::${level}::${scope.element.elementId}`
+      : `${cacheKey}::${level}`;
     const descriptionForEngine = actualDescription || cacheKeyDescription;
 
     log('→ resolveSelector');
     log('Cache key description:', cacheKeyDescription);
     log('Actual description for engine:', descriptionForEngine);
-    log('Cache key:', cacheKey);
     log('AlwaysAI:', alwaysAI);
     log('AutoHeal:', autoHeal);
     log('Request template:', requestTemplate);
+    log('Verification:', level);
     log('Variables for locator interpolation:', variables);
 
-    // Skip in-memory cache if alwaysAI is true
-    if (!alwaysAI) {
-      const cachedSelector = selectorCache.get(cacheKey);
-      if (cachedSelector) {
-        log('✓ Using in-memory cached selector:', cachedSelector);
-        // Interpolate variables if present in cached selector
-        if (variables && hasTemplateVariables(cachedSelector)) {
-          const interpolated = interpolateLocator(cachedSelector, variables);
-          log('✓ Interpolated cached selector with variables:', interpolated);
-          return interpolated;
-        }
-        return cachedSelector;
-      }
+    let pending = inflightSelectors.get(inflightKey);
+    if (pending) {
+      log('○ Request already in-flight, waiting for result...');
     } else {
-      log('○ In-memory cache skipped (alwaysAI mode)');
+      pending = (async () => {
+        // Scoped, shadow DOM, frame and snapshot-only lookups let the engine capture the DOM itself
+        const dom =
+          !scope && !engine.shadowDom && !engine.frames && engine.contextMode !== 'a11y'
+            ? async () => {
+                log('→ Fetching page source...');
+                const source = await ctx.getPageSource();
+                log('✓ Page source retrieved, length:', source.length);
+                return source;
+              }
+            : undefined;
+
+        log('→ Calling locator engine...');
+        const res = await engine.findLocator(
+          ctx as any,
+          descriptionForEngine,
+          dom,
+          alwaysAI,
+          requestTemplate,
+          variables,
+          autoHeal,
+          level,
+          scope,
+          multiple
+        );
+
+        if (!res?.best) {
+          throw new Error(`AI locator service returned no selector for "${descriptionForEngine}"`);
+        }
+
+        log('✓ Locator engine returned:', res.best);
+        log('  Is template:', res.isTemplate);
+        if (res.frame) log('  In frame:', res.frame.join('.'));
+
+        return res.frame ? { selector: res.best, frame: res.frame } : { selector: res.best };
+      })();
+      inflightSelectors.set(inflightKey, pending);
+      pending.finally(() => inflightSelectors.delete(inflightKey)).catch(() => {});
     }
 
-    const inflight = inflightSelectors.get(cacheKey);
-    if (inflight) {
-      log('○ Request already in-flight, waiting for result...');
-      const selector = await inflight;
-      // Interpolate variables if present in selector
-      if (variables && hasTemplateVariables(selector)) {
-        const interpolated = interpolateLocator(selector, variables);
-        log('✓ Interpolated in-flight selector with variables:', interpolated);
-        return interpolated;
-      }
-      return selector;
+    const resolved = await pending;
+    // Interpolate variables if present in selector
+    if (variables && hasTemplateVariables(resolved.selector)) {
+      const interpolated = interpolateLocator(resolved.selector, variables);
+      log('✓ Interpolated selector with variables:', interpolated);
+      return { ...resolved, selector: interpolated };
     }
+    return resolved;
+  };
 
-    const fetchPromise = (async () => {
-      log('→ Fetching page source...');
-      const dom = await ctx.getPageSource();
-      log('✓ Page source retrieved, length:', dom.length);
-
-      log('→ Calling locator engine...');
-      const res = await engine.findLocator(
-        ctx as any,
-        descriptionForEngine,
-        dom,
-        alwaysAI,
-        requestTemplate,
-        variables,
-        autoHeal
+  async function aiLocator(this: Browser, description: string, options?: AiLocatorOptions) {
+    log('\n╔══════════════════════════════════════════════════════════╗');
+    log('║ browser.aiLocator() called                               ║');
+    log('╚══════════════════════════════════════════════════════════╝');
+    const { selector, frame } = await locate(this, description, options);
+    if (frame) {
+      logWarn(
+        `"${description}" is inside frame ${frame.join('.')}; switch into it before using ${selector}, or use aiElement()`
       );
-
-      if (!res?.best) {
-        throw new Error(`AI locator service returned no selector for "${descriptionForEngine}"`);
-      }
-
-      log('✓ Locator engine returned:', res.best);
-      log('  Is template:', res.isTemplate);
-
-      // Only cache if not in alwaysAI mode
-      if (!alwaysAI) {
-        selectorCache.set(cacheKey, res.best);
-        log('✓ Cached selector in memory (key:', cacheKeyDescription, ')');
-      } else {
-        log('○ Selector not cached (alwaysAI mode)');
-      }
-
-      return res.best;
-    })();
-
-    inflightSelectors.set(cacheKey, fetchPromise);
-
-    try {
-      const selector = await fetchPromise;
-      // Interpolate variables if present in selector
-      if (variables && hasTemplateVariables(selector)) {
-        const interpolated = interpolateLocator(selector, variables);
-        log('✓ Interpolated fetched selector with variables:', interpolated);
-        return interpolated;
-      }
-      return selector;
-    } finally {
-      inflightSelectors.delete(cacheKey);
     }
-  };
+    return selector;
+  }
 
-  async function aiLocator(
-    this: Browser,
+  // Element-scoped variant: searches the element's own HTML and returns a selector relative to it
+  async function elementAiLocator(
+    this: WebdriverIO.Element,
     description: string,
-    options?: {
-      alwaysAI?: boolean;
-      autoHeal?: boolean;
-      variables?: Record<string, string | number> | (() => Record<string, string | number>);
-      cacheBy?: CacheStrategy;
-    }
+    options?: AiLocatorOptions
   ) {
     log('\n╔══════════════════════════════════════════════════════════╗');
-    log('║ browser.aiLocator() called                               ║');
+    log('║ element.aiLocator() called                               ║');
     log('╚══════════════════════════════════════════════════════════╝');
+    const scope: LocatorScope = { element: this, key: containerKey(this) };
+    log('Container:', scope.key);
+    const { selector } = await locate(getBrowser(this), description, options, scope);
+    return selector;
+  }
+
+  async function locate(
+    ctx: Browser,
+    description: string,
+    options?: AiLocatorOptions,
+    scope?: LocatorScope,
+    multiple: boolean = false
+  ) {
     log('Element description (template):', description);
     log('Options:', options);
 
     // Merge global context with local variables
-    const globalContext = (this as any).aiContext || {};
+    const globalContext = (ctx as any).aiContext || {};
     let variables = { ...globalContext };
 
     if (options?.variables) {
@@ -188,19 +214,99 @@ export function registerAiLocator(browser: Browser, options?: any) {
     const alwaysAI = options?.alwaysAI ?? false;
     const autoHeal = options?.autoHeal ?? true; // Default to true for auto-healing
 
-    const selector = await resolveSelector(
-      this,
+    const resolved = await resolveSelector(
+      ctx,
       templateForCache,
       alwaysAI,
       descriptionForAI,
       variables,
       requestTemplate,
-      autoHeal
+      autoHeal,
+      options?.verification,
+      scope,
+      multiple
     );
-    log('Final selector to use:', selector);
+    log('Final selector to use:', resolved.selector);
     log('Returning selector string\n');
 
-    return selector;
+    return resolved;
+  }
+
+  // Element commands resolve through the same path as aiLocator, so they share its cache,
+  // verification and healing. They also switch into the element's frame if needed and stay there.
+  async function aiElement(this: Browser, description: string, options?: AiLocatorOptions) {
+    const { selector, frame } = await locate(this, description, options);
+    log('browser.aiElement() resolving element for:', selector);
+    await enterFrame(this, frame);
+    const heal = healsOnAction(options);
+    // Overwrites only apply to elements fetched after they are registered
+    if (heal) registerHealOnAction(this);
+    const element = await this.$(selector).getElement();
+    if (heal) {
+      trackForHealing(element, {
+        description,
+        selector,
+        relocate: async () => {
+          const fresh = await relocate(this, description, options, 'interactable');
+          await enterFrame(this, fresh.frame);
+          return { element: await this.$(fresh.selector).getElement(), selector: fresh.selector };
+        }
+      });
+    }
+    return element;
+  }
+
+  // Several matches are the point here, so verification stops at 'exists' and the selector is
+  // cached apart from aiElement's
+  async function aiElements(this: Browser, description: string, options?: AiLocatorOptions) {
+    const listOptions: AiLocatorOptions = { ...options, verification: 'exists' };
+    const { selector, frame } = await locate(this, description, listOptions, undefined, true);
+    log('browser.aiElements() resolving elements for:', selector);
+    await enterFrame(this, frame);
+    const heal = healsOnAction(options);
+    if (heal) registerHealOnAction(this);
+    const elements = await this.$$(selector).getElements();
+    if (heal) {
+      elements.forEach((element, index) =>
+        trackForHealing(element, {
+          description: `${description} [${index}]`,
+          selector,
+          relocate: async () => {
+            const fresh = await relocate(this, description, listOptions, 'exists', true);
+            await enterFrame(this, fresh.frame);
+            const freshElements = await this.$$(fresh.selector).getElements();
+            return { element: freshElements[index], selector: fresh.selector };
+          }
+        })
+      );
+    }
+    return elements;
+  }
+
+  // Lookups return the browser to the caller's frame, so switch only when the element is in
+  // another document. An unknown frame means the lookup ran in it as is, like top-level results.
+  async function enterFrame(ctx: Browser, frame?: number[]) {
+    if (!engine.frames || detectPlatform(ctx as WebdriverIO.Browser) !== 'web') return;
+    const current = await currentFramePath(ctx as WebdriverIO.Browser);
+    const target = frame ?? [];
+    if (current ? current.join('.') === target.join('.') : !frame) return;
+    await switchToFramePath(ctx as WebdriverIO.Browser, target);
+  }
+
+  function healsOnAction(options?: AiLocatorOptions): boolean {
+    return options?.healOnAction ?? healOnAction;
+  }
+
+  // Healing re-resolves at least at the given level, so a cached selector that fails it is replaced
+  function relocate(
+    ctx: Browser,
+    description: string,
+    options: AiLocatorOptions | undefined,
+    minimumLevel: VerificationLevel,
+    multiple: boolean = false
+  ) {
+    const verification = strictestLevel(options?.verification ?? engine.verification, minimumLevel);
+    return locate(ctx, description, { ...options, verification }, undefined, multiple);
   }
 
   // Context management methods
@@ -237,8 +343,42 @@ export function registerAiLocator(browser: Browser, options?: any) {
   }
 
   browser.addCommand('aiLocator', aiLocator);
+  browser.addCommand('aiLocator', elementAiLocator, true);
+  browser.addCommand('aiElement', aiElement);
+  browser.addCommand('aiElements', aiElements);
+  // WebdriverIO chains commands whose name ends in $, so browser.ai$('x').click() works like $()
+  browser.addCommand('ai$', aiElement);
+  browser.addCommand('ai$$', aiElements);
+  if (healOnAction) registerHealOnAction(browser);
   browser.addCommand('setAiContext', setAiContext);
   browser.addCommand('clearAiContext', clearAiContext);
   browser.addCommand('mergeAiContext', mergeAiContext);
   browser.addCommand('withAiContext', withAiContext);
+  return engine;
+}
+
+/**
+ * Describe how a container was found, e.g. '#list .card[1]' for $('#list').$$('.card')[1], so
+ * sibling containers get their own cache entries while the key still holds across sessions
+ */
+function containerKey(element: WebdriverIO.Element): string {
+  const parts: string[] = [];
+  let node: any = element;
+  while (node && 'elementId' in node) {
+    const selector = typeof node.selector === 'string' ? node.selector : 'element';
+    parts.unshift(typeof node.index === 'number' ? `${selector}[${node.index}]` : selector);
+    node = node.parent;
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Walk up from an element to the browser it was fetched from
+ */
+function getBrowser(element: WebdriverIO.Element): Browser {
+  let node: any = element;
+  while (node.parent && 'elementId' in node) {
+    node = node.parent;
+  }
+  return node as Browser;
 }
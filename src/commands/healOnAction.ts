@@ -0,0 +1,90 @@
+import type { Browser } from 'webdriverio';
+import { log, logWarn } from '../utils/logger';
+
+// Element actions that are retried once on a fresh element when they fail
+export const HEALABLE_ACTIONS = [
+  'click',
+  'doubleClick',
+  'setValue',
+  'addValue',
+  'clearValue'
+] as const;
+
+type HealableAction = (typeof HEALABLE_ACTIONS)[number];
+type ElementAction = (this: WebdriverIO.Element, ...args: any[]) => Promise<unknown>;
+
+// Errors meaning the element went stale or changed, rather than the test being wrong
+const HEALABLE_ERROR = /stale element reference|not interactable/i;
+
+/**
+ * How to find an element again after it went stale
+ */
+export interface HealTarget {
+  description: string;
+  selector: string;
+  /** Re-resolve the description through the locator engine and return a fresh element */
+  relocate: () => Promise<{ element: WebdriverIO.Element; selector: string }>;
+}
+
+const healTargets = new WeakMap<object, HealTarget>();
+const patchedBrowsers = new WeakSet<object>();
+
+/**
+ * Remember how an AI-resolved element was found, so its actions can heal
+ */
+export function trackForHealing(element: WebdriverIO.Element, target: HealTarget) {
+  healTargets.set(element, target);
+}
+
+export function isHealableError(error: any): boolean {
+  return HEALABLE_ERROR.test(`${error?.name ?? ''} ${error?.message ?? ''}`);
+}
+
+/**
+ * Wrap the healable element actions once per browser. Untracked elements pass straight through.
+ * Called only once healing is enabled, so browsers that never heal keep the plain commands.
+ */
+export function registerHealOnAction(browser: Browser) {
+  if (patchedBrowsers.has(browser)) return;
+  patchedBrowsers.add(browser);
+
+  for (const action of HEALABLE_ACTIONS) {
+    browser.overwriteCommand(action, healingAction(action), true);
+  }
+}
+
+// Overwrite for one action: run it, and on a healable error re-resolve the element and retry
+function healingAction(action: HealableAction) {
+  return async function (
+    this: WebdriverIO.Element,
+    origCommand: (...args: any[]) => Promise<unknown>,
+    ...args: any[]
+  ) {
+    const target = healTargets.get(this);
+    if (!target) return origCommand(...args);
+
+    try {
+      return await origCommand(...args);
+    } catch (error: any) {
+      if (!isHealableError(error)) throw error;
+
+      logWarn(
+        `${action}() failed on "${target.description}" (${target.selector}): ${error.message} - re-resolving`
+      );
+      const fresh = await target.relocate();
+      if (!fresh.element) throw error;
+      logWarn(
+        `Healed "${target.description}": ${target.selector} → ${fresh.selector}, retrying ${action}()`
+      );
+
+      // Retry once; the fresh element is tracked only afterwards so a second failure is not healed again
+      const retry: ElementAction = fresh.element[action];
+      try {
+        return await retry.apply(fresh.element, args);
+      } finally {
+        trackForHealing(fresh.element, { ...target, selector: fresh.selector });
+        log('Heal target updated for', target.description);
+      }
+    }
+  };
+}
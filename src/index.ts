@@ -48,11 +48,15 @@
  * @example
  * ```typescript
  * // In your test - basic usage
- * const loginButton = await browser.aiLocator('login button');
+ * const loginButton = await browser.aiElement('login button');
  * await loginButton.click();
  *
+ * // Selector string, for use with $() or $$()
+ * const selector = await browser.aiLocator('login button');
+ * await $(selector).click();
+ *
  * // Always use AI (skip cache and heuristics)
- * await browser.aiLocator('submit button', { alwaysAI: true }).click();
+ * await browser.ai$('submit button', { alwaysAI: true }).click();
  * ```
  *
  * Usage Tracking (Optional):
@@ -70,8 +74,41 @@
 
 import AiLocatorService from './service';
 
-export { OpenAIClient } from './ai/llmClient';
+export {
+  OpenAIClient,
+  AnthropicClient,
+  AzureOpenAIClient,
+  GeminiClient,
+  BaseLLMClient,
+  LLMClient,
+  LLMResponse,
+  LLMRequest,
+  LLMTransportResult
+} from './ai/llmClient';
+export {
+  InvalidLLMResponseError,
+  LOCATOR_RESPONSE_SCHEMA,
+  SelectorType
+} from './ai/responseSchema';
 export { ServiceOptions } from './types';
+export {
+  LocatorStrategy,
+  StrategyContext,
+  StrategyFn,
+  BUILT_IN_STRATEGIES
+} from './locator/strategyRegistry';
+export { VerificationLevel } from './locator/verification';
+export {
+  CacheStore,
+  CacheStoreKind,
+  JsonFileCacheStore,
+  DirectoryCacheStore,
+  SqliteCacheStore
+} from './locator/cacheStores';
+export { Platform } from './utils/platform';
+export { UrlNormalization, CacheKeyFn } from './utils/urlNormalization';
+export { ContextMode } from './utils/accessibilitySnapshot';
+export { DomProfile, FRAMEWORK_HASH_CLASSES } from './utils/domParser';
 export { UsageCache, UsageEntry, UsageSummary } from './utils/usageCache';
 export default AiLocatorService;
 module.exports = AiLocatorService;
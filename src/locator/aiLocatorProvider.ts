@@ -1,4 +1,4 @@
-import { LLMClient } from '../ai/llmClient';
+import { LLMClient, LLMResponse, PromptContext } from '../ai/llmClient';
 import { LocatorResult } from '../types';
 import { log } from '../utils/logger';
 import {
@@ -9,10 +9,12 @@ import {
   optimizeXPath
 } from '../utils/xpathUtils';
 import { hasTemplateVariables } from '../utils/templateInterpolation';
+import { parseFramePath } from '../utils/domCapture';
 
 /**
  * Wraps an LLM client to request a locator for a given DOM & description.
- * Expects the LLM to return a selector string (CSS/XPath/Playwright locator).
+ * Expects the LLM to return best/alternates selectors (CSS/XPath/Playwright locator, or Appium
+ * strategies such as ~accessibility-id in native contexts).
  */
 export class AiLocatorProvider {
   client: LLMClient;
@@ -25,21 +27,23 @@ export class AiLocatorProvider {
     domSnippet: string,
     description: string,
     url?: string,
-    requestTemplate: boolean = false
+    requestTemplate: boolean = false,
+    feedback: string[] = [],
+    context: PromptContext = {}
   ): Promise<LocatorResult> {
     log('→ AiLocatorProvider.find:', description);
     log('  Request template:', requestTemplate);
+    log('  Feedback from previous attempts:', feedback.length);
     const response = await this.client.generateLocator(
       domSnippet,
       description,
       url,
-      requestTemplate
+      requestTemplate,
+      feedback.length ? feedback : undefined,
+      context
     );
 
-    // Parse selector and alternates from delimited response (format: best|||alt1|||alt2)
-    const parts = response.selector.split('|||');
-    const selector = parts[0];
-    const alternates = parts.slice(1);
+    const { best: selector, alternates } = this.readSelectors(response);
 
     log('Parsed primary selector:', selector);
     log('Parsed alternates:', alternates);
@@ -63,23 +67,53 @@ export class AiLocatorProvider {
     // Check if the selector contains template variables
     const isTemplate = hasTemplateVariables(processedSelector);
 
+    const metadata: Record<string, any> = { source: response.source ?? 'llm' };
+    // Only include usage if tracking is enabled
+    if (response.usage) metadata.usage = response.usage;
+    if (response.confidence !== undefined) metadata.confidence = response.confidence;
+    if (response.rationale) metadata.rationale = response.rationale;
+
     const result: LocatorResult = {
       best: processedSelector,
       alternates: processedAlternates,
       isTemplate,
-      // Only include metadata if usage data is available (tracking is enabled)
-      metadata: response.usage
-        ? {
-            usage: response.usage
-          }
-        : undefined
+      metadata
     };
+    if (response.provider) result.provider = response.provider;
+    if (response.model) result.model = response.model;
+    const frame = parseFramePath(response.frame);
+    if (frame) {
+      result.frame = frame;
+      log('  In frame:', response.frame);
+    }
+    if (response.ref) {
+      result.ref = response.ref;
+      log('  Snapshot ref:', response.ref);
+    }
     log('← AiLocatorProvider returned selector:', processedSelector);
     log('  Is template:', isTemplate);
     log('← With alternates:', processedAlternates);
     return result;
   }
 
+  /**
+   * Read best/alternates from the typed fields, or from the legacy
+   * delimited `selector` string (format: best|||alt1|||alt2) when best is absent
+   */
+  private readSelectors(response: LLMResponse): { best: string; alternates: string[] } {
+    if (response.best || response.ref) {
+      return { best: response.best || '', alternates: response.alternates || [] };
+    }
+
+    if (response.selector) {
+      log('Legacy delimited selector response, splitting on |||');
+      const parts = response.selector.split('|||');
+      return { best: parts[0], alternates: parts.slice(1) };
+    }
+
+    return { best: '', alternates: [] };
+  }
+
   /**
    * Process selector: validate, normalize, and optimize
    */
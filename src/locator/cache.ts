@@ -1,34 +1,178 @@
-import fs from 'fs';
-import path from 'path';
 import { LocatorResult } from '../types';
 import { log } from '../utils/logger';
+import { CacheStore, createCacheStore } from './cacheStores';
 
+/**
+ * When cache entries are evicted, in milliseconds. Evicted entries are looked up again.
+ */
+export interface CacheExpiry {
+  /**
+   * Evict entries that have not passed verification for this long. A cached selector served
+   * after failing verification (autoHeal off) does not count as used.
+   */
+  ttl?: number;
+  /** Evict entries whose selector was produced longer ago than this */
+  maxAge?: number;
+}
+
+/**
+ * Selectors by cache key. Entries this worker has read or written are held in memory; every
+ * set is written through to the store (a JSON file unless another CacheStore is given), stamped
+ * with updatedAt so parallel workers keep the most recent entry. Hits are only counted in
+ * memory until flush().
+ */
 export class LocatorCache {
-  filePath: string;
-  store: Record<string, LocatorResult> = {};
+  store: CacheStore;
+  expiry: CacheExpiry;
+  private entries = new Map<string, LocatorResult>();
+  // Hits recorded since the last flush, by cache key
+  private pendingHits = new Map<string, { hits: number; lastVerifiedAt?: string }>();
 
-  constructor(filePath?: string) {
-    this.filePath = filePath || path.join(process.cwd(), '.wdio-ai-locator-cache.json');
-    try {
-      if (fs.existsSync(this.filePath)) {
-        const raw = fs.readFileSync(this.filePath, 'utf-8');
-        this.store = JSON.parse(raw);
+  constructor(store?: string | CacheStore, expiry: CacheExpiry = {}) {
+    this.store = typeof store === 'object' ? store : createCacheStore('file', store);
+    this.expiry = expiry;
+  }
+
+  async get(key: string): Promise<LocatorResult | undefined> {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      try {
+        entry = await this.store.get(key);
+      } catch (err) {
+        log('LocatorCache read error', err);
+        return undefined;
       }
+    }
+    if (!entry) return undefined;
+
+    if (this.isExpired(entry)) {
+      log('LocatorCache entry expired:', key);
+      await this.delete(key);
+      return undefined;
+    }
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, value: LocatorResult) {
+    const entry = { ...value, updatedAt: new Date().toISOString() };
+    this.entries.set(key, entry);
+    // The entry written carries the counters recorded so far
+    this.pendingHits.delete(key);
+    try {
+      await this.store.set(key, entry);
     } catch (err) {
-      log('LocatorCache load error', err);
+      log('LocatorCache write error', err);
     }
   }
 
-  get(key: string): LocatorResult | undefined {
-    return this.store[key];
+  async delete(key: string) {
+    this.entries.delete(key);
+    this.pendingHits.delete(key);
+    try {
+      await this.store.delete(key);
+    } catch (err) {
+      log('LocatorCache delete error', err);
+    }
   }
 
-  set(key: string, value: LocatorResult) {
-    this.store[key] = value;
+  /** Every stored entry, by cache key */
+  async list(): Promise<Record<string, LocatorResult>> {
     try {
-      fs.writeFileSync(this.filePath, JSON.stringify(this.store, null, 2));
+      return await this.store.list();
     } catch (err) {
-      log('LocatorCache write error', err);
+      log('LocatorCache list error', err);
+      return Object.fromEntries(this.entries);
+    }
+  }
+
+  /**
+   * Count a lookup served from the entry for key, and when it last passed verification.
+   * Returns the updated entry; the store is only written by flush().
+   */
+  recordHit(key: string, verified: boolean): LocatorResult | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    const now = new Date().toISOString();
+    const updated: LocatorResult = {
+      ...entry,
+      // Entries cached before these fields existed start counting from their last write
+      createdAt: entry.createdAt ?? entry.updatedAt ?? now,
+      hitCount: (entry.hitCount ?? 0) + 1,
+      ...(verified ? { lastVerifiedAt: now } : {})
+    };
+    this.entries.set(key, updated);
+
+    const pending = this.pendingHits.get(key);
+    this.pendingHits.set(key, {
+      hits: (pending?.hits ?? 0) + 1,
+      lastVerifiedAt: verified ? now : pending?.lastVerifiedAt
+    });
+    return updated;
+  }
+
+  /**
+   * Write the hits recorded since the last flush to the store. They are added to the counts
+   * stored by other workers; entries another worker has since replaced keep their own counts.
+   */
+  async flush() {
+    const pending = Array.from(this.pendingHits);
+    this.pendingHits.clear();
+
+    for (const [key, { hits, lastVerifiedAt }] of pending) {
+      try {
+        const stored = await this.store.get(key);
+        if (!stored || stored.best !== this.entries.get(key)?.best) continue;
+        const latest =
+          (stored.lastVerifiedAt ?? '') > (lastVerifiedAt ?? '')
+            ? stored.lastVerifiedAt
+            : lastVerifiedAt;
+        const entry: LocatorResult = {
+          ...stored,
+          createdAt: stored.createdAt ?? stored.updatedAt,
+          hitCount: (stored.hitCount ?? 0) + hits,
+          lastVerifiedAt: latest,
+          updatedAt: new Date().toISOString()
+        };
+        this.entries.set(key, entry);
+        await this.store.set(key, entry);
+      } catch (err) {
+        log('LocatorCache flush error', err);
+      }
+    }
+    if (pending.length) log('LocatorCache flushed hits for', pending.length, 'entries');
+  }
+
+  /**
+   * Evict every expired entry from the store. Returns the evicted keys.
+   */
+  async prune(): Promise<string[]> {
+    if (this.expiry.ttl === undefined && this.expiry.maxAge === undefined) return [];
+    const expired = Object.entries(await this.list())
+      .filter(([, entry]) => this.isExpired(entry))
+      .map(([key]) => key);
+    for (const key of expired) await this.delete(key);
+    return expired;
+  }
+
+  isExpired(entry: LocatorResult, now: number = Date.now()): boolean {
+    const { ttl, maxAge } = this.expiry;
+    // Entries from before these fields existed fall back to when they were last written
+    const created = Date.parse(entry.createdAt ?? entry.updatedAt ?? '');
+    const used = Date.parse(entry.lastVerifiedAt ?? entry.createdAt ?? entry.updatedAt ?? '');
+    if (maxAge !== undefined && now - created > maxAge) return true;
+    if (ttl !== undefined && now - used > ttl) return true;
+    return false;
+  }
+
+  async clear() {
+    this.entries.clear();
+    this.pendingHits.clear();
+    try {
+      await this.store.clear();
+    } catch (err) {
+      log('LocatorCache clear error', err);
     }
   }
 }
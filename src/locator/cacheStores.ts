@@ -0,0 +1,245 @@
+import fs from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import { LocatorResult } from '../types';
+import { readJsonFile, withFileLock, writeFileAtomic } from '../utils/fileLock';
+
+type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * Where cached selectors are persisted. Methods may return promises, so a store can sit on a
+ * network service (e.g. a Redis-protocol server shared by CI jobs) as well as on local files.
+ * Writes from parallel workers should keep the entry with the latest updatedAt.
+ */
+export interface CacheStore {
+  get(key: string): MaybePromise<LocatorResult | undefined>;
+  set(key: string, value: LocatorResult): MaybePromise<void>;
+  delete(key: string): MaybePromise<void>;
+  /** Every entry, by cache key */
+  list(): MaybePromise<Record<string, LocatorResult>>;
+  clear(): MaybePromise<void>;
+}
+
+/**
+ * Built-in stores:
+ * - 'file': one JSON file (default)
+ * - 'directory': one JSON file per page, in folders by URL host and path
+ * - 'sqlite': an embedded SQLite database (needs Node.js 22.5+ for node:sqlite)
+ */
+export type CacheStoreKind = 'file' | 'directory' | 'sqlite';
+
+const DEFAULT_PATHS: Record<CacheStoreKind, string> = {
+  file: '.wdio-ai-locator-cache.json',
+  directory: '.wdio-ai-locator-cache',
+  sqlite: '.wdio-ai-locator-cache.sqlite'
+};
+
+/**
+ * The store for the cacheStore and cachePath service options
+ */
+export function createCacheStore(
+  store: CacheStoreKind | CacheStore = 'file',
+  cachePath?: string
+): CacheStore {
+  if (typeof store !== 'string') return store;
+
+  const location = cachePath || path.join(process.cwd(), DEFAULT_PATHS[store] ?? '');
+  switch (store) {
+    case 'file':
+      return new JsonFileCacheStore(location);
+    case 'directory':
+      return new DirectoryCacheStore(location);
+    case 'sqlite':
+      return new SqliteCacheStore(location);
+    default:
+      throw new Error(`Unsupported cache store: ${store}`);
+  }
+}
+
+/**
+ * All entries in one JSON file. Every write re-reads the file under a lock and replaces it
+ * atomically, so parallel workers do not drop each other's entries.
+ */
+export class JsonFileCacheStore implements CacheStore {
+  constructor(readonly filePath: string) {}
+
+  get(key: string): LocatorResult | undefined {
+    return this.list()[key];
+  }
+
+  async set(key: string, value: LocatorResult) {
+    await updateJsonFile(this.filePath, (entries) => {
+      if (!isNewer(value, entries[key])) return false;
+      entries[key] = value;
+      return true;
+    });
+  }
+
+  async delete(key: string) {
+    await updateJsonFile(this.filePath, (entries) => delete entries[key]);
+  }
+
+  list(): Record<string, LocatorResult> {
+    return readJsonFile<Record<string, LocatorResult>>(this.filePath) ?? {};
+  }
+
+  async clear() {
+    await withFileLock(this.filePath, () => fs.rmSync(this.filePath, { force: true }));
+  }
+}
+
+/**
+ * One JSON file per page, at <dir>/<host>/<path>.json (the site root is index.json), with keys
+ * sorted so changes show up as small, readable git diffs. Keys that are not URLs go to
+ * _other.json.
+ */
+export class DirectoryCacheStore implements CacheStore {
+  constructor(readonly dirPath: string) {}
+
+  get(key: string): LocatorResult | undefined {
+    return readJsonFile<Record<string, LocatorResult>>(this.shardPath(key))?.[key];
+  }
+
+  async set(key: string, value: LocatorResult) {
+    await updateJsonFile(this.shardPath(key), (entries) => {
+      if (!isNewer(value, entries[key])) return false;
+      entries[key] = value;
+      return true;
+    });
+  }
+
+  async delete(key: string) {
+    await updateJsonFile(this.shardPath(key), (entries) => delete entries[key]);
+  }
+
+  list(): Record<string, LocatorResult> {
+    const entries: Record<string, LocatorResult> = {};
+    for (const file of jsonFilesIn(this.dirPath)) {
+      Object.assign(entries, readJsonFile<Record<string, LocatorResult>>(file));
+    }
+    return entries;
+  }
+
+  // Each shard is removed under its own lock, as writers take it; the folders are left in place
+  // since a writer may be creating its lock in one
+  async clear() {
+    for (const file of jsonFilesIn(this.dirPath)) {
+      await withFileLock(file, () => fs.rmSync(file, { force: true }));
+    }
+  }
+
+  /** File holding the key's entry, from the page part of the key (before the first '::') */
+  shardPath(key: string): string {
+    const page = key.split('::')[0];
+    let segments: string[];
+    try {
+      const url = new URL(page);
+      const host = url.host || url.protocol.replace(/:$/, '');
+      const pathSegments = url.pathname.split('/').filter(Boolean);
+      segments = [host, ...(pathSegments.length ? pathSegments : ['index'])];
+    } catch (_err) {
+      segments = ['_other'];
+    }
+
+    const safe = segments.map((segment) =>
+      /^\.+$/.test(segment) ? '_' : segment.replace(/[^\w.-]/g, '_')
+    );
+    return `${path.join(this.dirPath, ...safe)}.json`;
+  }
+}
+
+/**
+ * Entries in an SQLite database through Node's built-in node:sqlite (Node.js 22.5+). SQLite
+ * handles concurrent workers itself; a write only replaces an entry that is not newer.
+ */
+export class SqliteCacheStore implements CacheStore {
+  private db: import('node:sqlite').DatabaseSync;
+
+  constructor(readonly filePath: string) {
+    let sqlite: typeof import('node:sqlite');
+    try {
+      // Loaded on demand so the other stores work on Node versions without node:sqlite
+      sqlite = createRequire(__filename)('node:sqlite');
+    } catch (_err) {
+      throw new Error(
+        `The sqlite cache store needs node:sqlite (Node.js 22.5+); running ${process.version}`
+      );
+    }
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new sqlite.DatabaseSync(filePath);
+    this.db.exec('PRAGMA busy_timeout = 5000');
+    this.db.exec(
+      'CREATE TABLE IF NOT EXISTS locators (key TEXT PRIMARY KEY, value TEXT NOT NULL, updated_at TEXT)'
+    );
+  }
+
+  get(key: string): LocatorResult | undefined {
+    const row = this.db.prepare('SELECT value FROM locators WHERE key = ?').get(key);
+    return row ? JSON.parse(String(row.value)) : undefined;
+  }
+
+  set(key: string, value: LocatorResult) {
+    this.db
+      .prepare(
+        `INSERT INTO locators (key, value, updated_at) VALUES (?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+         WHERE coalesce(excluded.updated_at, '') >= coalesce(locators.updated_at, '')`
+      )
+      .run(key, JSON.stringify(value), value.updatedAt ?? null);
+  }
+
+  delete(key: string) {
+    this.db.prepare('DELETE FROM locators WHERE key = ?').run(key);
+  }
+
+  list(): Record<string, LocatorResult> {
+    const entries: Record<string, LocatorResult> = {};
+    for (const row of this.db.prepare('SELECT key, value FROM locators').all()) {
+      entries[String(row.key)] = JSON.parse(String(row.value));
+    }
+    return entries;
+  }
+
+  clear() {
+    this.db.exec('DELETE FROM locators');
+  }
+}
+
+// Last writer wins; entries written before updatedAt existed count as oldest
+function isNewer(entry: LocatorResult, current?: LocatorResult): boolean {
+  return !current || (entry.updatedAt ?? '') >= (current.updatedAt ?? '');
+}
+
+/**
+ * Re-read a JSON file under its lock, apply update, and write it back when update reports a
+ * change. Files left empty are removed.
+ */
+function updateJsonFile(
+  filePath: string,
+  update: (entries: Record<string, LocatorResult>) => boolean
+): Promise<void> {
+  return withFileLock(filePath, () => {
+    const entries = readJsonFile<Record<string, LocatorResult>>(filePath) ?? {};
+    if (!update(entries)) return;
+    if (!Object.keys(entries).length) {
+      fs.rmSync(filePath, { force: true });
+      return;
+    }
+    const sorted = Object.fromEntries(
+      Object.keys(entries)
+        .sort()
+        .map((key) => [key, entries[key]])
+    );
+    writeFileAtomic(filePath, JSON.stringify(sorted, null, 2));
+  });
+}
+
+function jsonFilesIn(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return jsonFilesIn(fullPath);
+    return entry.name.endsWith('.json') ? [fullPath] : [];
+  });
+}
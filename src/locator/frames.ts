@@ -0,0 +1,72 @@
+import { log } from '../utils/logger';
+
+/**
+ * Switch from the top-level document into a nested frame.
+ * Each index picks among the iframe/frame elements of the current document, outermost first.
+ */
+export async function switchToFramePath(browser: WebdriverIO.Browser, path: number[]) {
+  await browser.switchFrame(null);
+  for (const index of path) {
+    const frames = await browser.$$('iframe, frame');
+    const frame = frames[index];
+    if (!frame) {
+      throw new Error(`Frame ${path.join('.')} not found (no frame at index ${index})`);
+    }
+    await browser.switchFrame(frame);
+  }
+  if (path.length) log('Switched to frame', path.join('.'));
+}
+
+/**
+ * Runs in the browser: the path of the frame the session is switched into, as indices among the
+ * iframe/frame elements of each document from the top down ([] at the top level). Null when an
+ * ancestor is cross-origin, since its frame element cannot be read.
+ */
+export function readFramePath(): number[] | null {
+  const path: number[] = [];
+  let win: Window = window;
+  while (win !== win.top) {
+    const frameElement = win.frameElement;
+    if (!frameElement) return null;
+    const frames = Array.from(win.parent.document.querySelectorAll('iframe, frame'));
+    path.unshift(frames.indexOf(frameElement));
+    win = win.parent;
+  }
+  return path;
+}
+
+/**
+ * The frame the caller has switched into, so it can be restored after a lookup.
+ * Undefined when it cannot be worked out.
+ */
+export async function currentFramePath(
+  browser: WebdriverIO.Browser
+): Promise<number[] | undefined> {
+  try {
+    const path = await browser.execute(readFramePath);
+    return Array.isArray(path) ? path : undefined;
+  } catch (err) {
+    log('Could not read the current frame', err);
+    return undefined;
+  }
+}
+
+/**
+ * Run fn inside a frame and switch back to the top-level document afterwards, also when the
+ * switch fails partway. Without a path, fn runs in the current context.
+ */
+export async function withFrame<T>(
+  browser: WebdriverIO.Browser,
+  path: number[] | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (!path?.length) return fn();
+
+  try {
+    await switchToFramePath(browser, path);
+    return await fn();
+  } finally {
+    await browser.switchFrame(null);
+    log('Restored top-level document');
+  }
+}
@@ -1,58 +1,212 @@
-import { LocatorResult } from '../types';
+import { LocatorResult, ServiceOptions } from '../types';
+import { LLMClient } from '../ai/llmClient';
 import { LocatorCache } from './cache';
+import { createCacheStore } from './cacheStores';
 import { AiLocatorProvider } from './aiLocatorProvider';
-import { extractMinimalDom } from '../utils/domParser';
-import { log } from '../utils/logger';
-import { selectBestXPath, scoreXPath } from '../utils/xpathUtils';
+import { DomProfile, extractMinimalDom, extractMinimalNativeDom } from '../utils/domParser';
+import { Platform, detectPlatform, getPageKey } from '../utils/platform';
+import { CacheKeyFn, UrlNormalization, normalizeUrl } from '../utils/urlNormalization';
+import {
+  AccessibilitySnapshot,
+  ContextMode,
+  captureAccessibilitySnapshot,
+  truncateSnapshot
+} from '../utils/accessibilitySnapshot';
+import { log, logWarn } from '../utils/logger';
+import { selectBestXPath, scoreXPath, toRelativeXPath } from '../utils/xpathUtils';
 import { interpolateLocator } from '../utils/templateInterpolation';
+import { SHADOW_ROOT_MARKER, hasShadowRoots, toDeepSelector } from '../utils/shadowDom';
+import { FRAME_MARKER, hasFrames, serializePageDom } from '../utils/domCapture';
+import { structureFingerprint } from '../utils/fingerprint';
+import { StrategyRegistry } from './strategyRegistry';
+import { currentFramePath, switchToFramePath, withFrame } from './frames';
+import {
+  VerificationLevel,
+  VerificationResult,
+  describeFailure,
+  strictestLevel,
+  verifySelector
+} from './verification';
+
+export interface LocatorEngineOptions {
+  /** Deterministic strategies tried before the AI (default: built-ins only) */
+  strategies?: StrategyRegistry;
+  /** Cache selectors that came from heuristic fallbacks while the LLM was unavailable */
+  cacheFallbacks?: boolean;
+  /** Default verification level for selectors (default: 'exists') */
+  verification?: VerificationLevel;
+  /** Capture open shadow roots when reading the page DOM (default: false) */
+  shadowDom?: boolean;
+  /** Capture same-origin iframes when reading the page DOM (default: false) */
+  frames?: boolean;
+  /** Send the HTML DOM, an accessibility snapshot, or both to the AI (default: 'html') */
+  contextMode?: ContextMode;
+  /** Size budget for the DOM or snapshot sent to the AI, in characters (default: 10000) */
+  maxDomChars?: number;
+  /** Size budget in tokens, estimated at 4 characters per token; overrides maxDomChars */
+  maxDomTokens?: number;
+  /** Tags, attributes and classes kept in the HTML DOM sent to the AI */
+  domProfile?: DomProfile;
+  /** How page URLs are reduced to cache scopes; false keys by the raw URL (default: {}) */
+  urlNormalization?: UrlNormalization | false;
+  /** Cache scope for a lookup, in place of the normalised URL */
+  cacheKeyFn?: CacheKeyFn;
+}
+
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * DOM handed to the engine by the caller, or a loader for it. A loader is only called when the
+ * AI is asked, so cache and strategy hits do not pay for reading the page.
+ */
+export type DomSource = string | (() => Promise<string>);
+
+/**
+ * Container element a lookup is limited to. Selectors are searched and returned relative to it.
+ */
+export interface LocatorScope {
+  element: WebdriverIO.Element;
+  /** Identifies the container in cache keys, e.g. the selector it was fetched with */
+  key: string;
+}
 
 export class LocatorEngine {
   cache: LocatorCache;
   aiProvider: AiLocatorProvider;
   maxRetries: number;
+  strategies: StrategyRegistry;
+  cacheFallbacks: boolean;
+  verification: VerificationLevel;
+  shadowDom: boolean;
+  frames: boolean;
+  contextMode: ContextMode;
+  maxDomChars: number;
+  domProfile: DomProfile;
+  urlNormalization: UrlNormalization | false;
+  cacheKeyFn?: CacheKeyFn;
 
-  constructor(cache: LocatorCache, aiProvider: AiLocatorProvider, maxRetries: number = 2) {
+  constructor(
+    cache: LocatorCache,
+    aiProvider: AiLocatorProvider,
+    maxRetries: number = 2,
+    options: LocatorEngineOptions = {}
+  ) {
     this.cache = cache;
     this.aiProvider = aiProvider;
     this.maxRetries = maxRetries;
+    this.strategies = options.strategies ?? new StrategyRegistry();
+    this.cacheFallbacks = options.cacheFallbacks ?? false;
+    this.verification = options.verification ?? 'exists';
+    this.shadowDom = options.shadowDom ?? false;
+    this.frames = options.frames ?? false;
+    this.contextMode = options.contextMode ?? 'html';
+    this.maxDomChars = options.maxDomTokens
+      ? options.maxDomTokens * CHARS_PER_TOKEN
+      : (options.maxDomChars ?? 10000);
+    this.domProfile = options.domProfile ?? {};
+    this.urlNormalization = options.urlNormalization ?? {};
+    this.cacheKeyFn = options.cacheKeyFn;
   }
 
-  buildKey(url: string, desc: string) {
-    return `${url}::${desc}`;
+  buildKey(url: string, desc: string, container?: string, multiple: boolean = false) {
+    const scope = this.cacheKeyFn
+      ? this.cacheKeyFn(url, desc)
+      : normalizeUrl(url, this.urlNormalization);
+    const key = container ? `${scope}::${container} >> ${desc}` : `${scope}::${desc}`;
+    // A selector for every match is rarely the one for a single element, so it is kept apart
+    return multiple ? `${key} [all]` : key;
   }
 
   /** Main entry: returns a selector string that exists on the page. */
   async findLocator(
     browser: WebdriverIO.Browser,
     desc: string,
-    contextDomSnippet?: string,
+    contextDomSnippet?: DomSource,
     alwaysAI: boolean = false,
     requestTemplate: boolean = false,
     variables?: Record<string, string | number>,
-    autoHeal: boolean = true
+    autoHeal: boolean = true,
+    verification: VerificationLevel = this.verification,
+    scope?: LocatorScope,
+    multiple: boolean = false
+  ): Promise<LocatorResult> {
+    // Frame paths are relative to the top-level document, so page lookups start from there and
+    // switch back to the caller's frame afterwards
+    const framed = this.frames && !scope && detectPlatform(browser) === 'web';
+    const callerFrame = framed ? await currentFramePath(browser) : undefined;
+    if (framed && !callerFrame) log('○ Current frame unknown - looking up from it as is');
+    if (callerFrame?.length) await browser.switchFrame(null);
+
+    try {
+      return await this.lookup(
+        browser,
+        desc,
+        contextDomSnippet,
+        alwaysAI,
+        requestTemplate,
+        variables,
+        autoHeal,
+        verification,
+        scope,
+        multiple
+      );
+    } finally {
+      if (callerFrame?.length) {
+        try {
+          await switchToFramePath(browser, callerFrame);
+        } catch (err: any) {
+          logWarn(`Could not switch back to frame ${callerFrame.join('.')}: ${err?.message}`);
+        }
+      }
+    }
+  }
+
+  private async lookup(
+    browser: WebdriverIO.Browser,
+    desc: string,
+    contextDomSnippet: DomSource | undefined,
+    alwaysAI: boolean,
+    requestTemplate: boolean,
+    variables: Record<string, string | number> | undefined,
+    autoHeal: boolean,
+    verification: VerificationLevel,
+    scope: LocatorScope | undefined,
+    multiple: boolean
   ): Promise<LocatorResult> {
-    const url = (await browser.getUrl()) || 'unknown-url';
-    const key = this.buildKey(url, desc);
+    const platform = detectPlatform(browser);
+    const url = await getPageKey(browser);
+    // Snapshot refs cannot express template patterns, and native contexts have no DOM to walk
+    const contextMode: ContextMode =
+      platform !== 'web' || requestTemplate ? 'html' : this.contextMode;
+    const key = this.buildKey(url, desc, scope?.key, multiple);
+    // Scoped lookups verify through the container so only its descendants count
+    const root = scope?.element ?? browser;
 
     log('╔════════════════════════════════════════════════════════════╗');
     log('║ Starting Locator Search                                   ║');
     log('╚════════════════════════════════════════════════════════════╝');
     log('Description:', desc);
     log('URL:', url);
+    log('Platform:', platform);
+    log('Context mode:', contextMode);
     log('Cache key:', key);
     log('AlwaysAI mode:', alwaysAI);
     log('AutoHeal mode:', autoHeal);
     log('Request template:', requestTemplate);
     log('Variables for verification:', variables);
+    log('Verification level:', verification);
+    log('Scope:', scope ? scope.key : 'page');
 
     if (alwaysAI) {
       log('\n⚡ AlwaysAI mode enabled - skipping cache and heuristics, going directly to AI');
     }
 
     // 1) Cache check (skip if alwaysAI)
+    // A cached entry that fails verification is healed below
+    let cached: LocatorResult | undefined;
     if (!alwaysAI) {
-      log('\n[Step 1/2] Checking cache...');
-      const cached = this.cache.get(key);
+      log('\n[Step 1/3] Checking cache...');
+      cached = await this.cache.get(key);
       if (cached) {
         log('✓ Cache hit:', cached.best);
 
@@ -60,10 +214,17 @@ export class LocatorEngine {
         const selectorToVerify =
           cached.isTemplate && variables ? interpolateLocator(cached.best, variables) : cached.best;
 
-        if (await this.verifySelector(browser, selectorToVerify)) {
+        const outcome = await this.verifyInFrame(
+          browser,
+          root,
+          cached.frame,
+          selectorToVerify,
+          verification
+        );
+        if (outcome.ok) {
           log('✓ Cached selector verified successfully');
           log('Result: Using cached selector');
-          return cached;
+          return this.cache.recordHit(key, true) ?? cached;
         } else {
           log('✗ Cached selector failed verification');
 
@@ -72,17 +233,36 @@ export class LocatorEngine {
           } else {
             log('○ AutoHeal disabled - returning cached locator without verification');
             log('Result: Using unverified cached selector');
-            return cached;
+            return this.cache.recordHit(key, false) ?? cached;
           }
         }
       } else {
         log('○ No cache entry found');
       }
     } else {
-      log('\n[Step 1/2] Cache check - SKIPPED (alwaysAI mode)');
+      log('\n[Step 1/3] Cache check - SKIPPED (alwaysAI mode)');
     }
 
-    // 2) Ask AI with retry logic
+    // 2) Deterministic strategies (skip if alwaysAI, templates need an AI-generated pattern,
+    //    and in native contexts, where the built-in CSS/XPath candidates do not apply)
+    if (!alwaysAI && !requestTemplate && platform === 'web') {
+      log('\n[Step 2/3] Trying deterministic strategies...');
+      const heuristic = await this.tryStrategies(root, desc, url, verification, !!scope);
+      if (heuristic) {
+        await this.storeResult(key, heuristic, !!cached);
+        log('Result: Using strategy selector from', heuristic.metadata?.strategy);
+        return heuristic;
+      }
+    } else {
+      log(
+        '\n[Step 2/3] Deterministic strategies - SKIPPED',
+        alwaysAI ? '(alwaysAI mode)' : requestTemplate ? '(template requested)' : '(native context)'
+      );
+    }
+
+    // 3) Ask AI with retry logic
+    // Selectors rejected so far and why, reported back to the AI on the next attempt
+    const feedback: string[] = [];
     for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
       const isRetry = attempt > 0;
 
@@ -91,34 +271,68 @@ export class LocatorEngine {
           `\n🔄 Retry attempt ${attempt}/${this.maxRetries} - Capturing fresh DOM and requesting new AI-generated locator...`
         );
       } else {
-        log('\n[Step 2/2] Requesting AI-generated locator...');
+        log('\n[Step 3/3] Requesting AI-generated locator...');
       }
 
-      // Capture fresh DOM on each attempt (including retries)
-      const rawDom =
-        contextDomSnippet || (await browser.execute(() => document.documentElement.outerHTML));
-      const rawDomStr = typeof rawDom === 'string' ? rawDom : JSON.stringify(rawDom);
-      const dom = extractMinimalDom(rawDomStr);
-
-      log('DOM Statistics:');
-      log('  - Original DOM size:', rawDomStr.length, 'characters');
-      log('  - Trimmed DOM size:', dom.length, 'characters');
-      log('  - Reduction:', Math.round((1 - dom.length / rawDomStr.length) * 100) + '%');
+      // Capture fresh DOM and snapshot on each attempt (including retries)
+      const { dom, page } =
+        contextMode === 'a11y'
+          ? { dom: '', page: '' }
+          : await this.captureDom(browser, platform, desc, contextDomSnippet, scope);
+      const snapshot =
+        contextMode === 'html' ? undefined : await this.captureSnapshot(browser, scope);
+      const shadowDom = hasShadowRoots(dom);
+      const frames = hasFrames(dom);
+      // The trimmed DOM depends on the description, so the fingerprint is taken from the page
+      const fingerprint = structureFingerprint(page || snapshot?.text || '');
 
       if (isRetry) {
         log('📸 Fresh DOM captured for retry');
       }
 
-      log('\n📄 Trimmed DOM sent to AI:');
-      log('─'.repeat(80));
-      log(dom);
-      log('─'.repeat(80));
-      log('');
-
-      const aiRes = await this.aiProvider.find(dom, desc, url, requestTemplate);
+      let aiRes: LocatorResult;
+      try {
+        aiRes = await this.aiProvider.find(dom, desc, url, requestTemplate, [...feedback], {
+          // Native lookups send the whole hierarchy even when scoped; verification still limits them
+          scoped: !!scope && platform === 'web',
+          shadowDom,
+          frames,
+          platform,
+          ...(snapshot
+            ? { contextMode, snapshot: truncateSnapshot(snapshot.text, this.maxDomChars, desc) }
+            : {})
+        });
+        if (aiRes.ref !== undefined) aiRes = this.resolveRef(aiRes, snapshot, feedback);
+        if (scope) aiRes = this.toRelative(aiRes);
+        if (shadowDom) aiRes = this.withDeepAlternates(aiRes);
+      } catch (err: any) {
+        if (!err?.retryable) throw err;
+        log('✗ AI response rejected:', err.message);
+        if (attempt === this.maxRetries) {
+          log(`\n✗ All ${this.maxRetries + 1} attempts exhausted`);
+          break;
+        }
+        log(`\nℹ Attempt ${attempt + 1} failed, will retry...`);
+        continue;
+      }
       log('AI returned selector:', aiRes.best);
       log('  Is template:', aiRes.isTemplate);
 
+      // Fallback selectors are loose guesses, so only accept one that matches a single element
+      const isFallback = aiRes.metadata?.source === 'fallback';
+      if (isFallback) {
+        logWarn(
+          `LLM unavailable for "${desc}" - trying heuristic fallback selectors (unique match required)`
+        );
+      }
+      const level = isFallback ? strictestLevel(verification, 'unique') : verification;
+      const verify = async (selector: string, original: string) => {
+        const outcome = await this.verifyInFrame(browser, root, aiRes.frame, selector, level);
+        // Fallback guesses did not come from the model, so they are not worth reporting back
+        if (!isFallback) this.noteRejection(feedback, original, outcome);
+        return outcome.ok;
+      };
+
       // Try primary selector
       // If it's a template, interpolate variables before verification
       const selectorToVerify =
@@ -129,10 +343,10 @@ export class LocatorEngine {
         aiRes.isTemplate ? '(interpolated from template)' : ''
       );
 
-      if (aiRes && aiRes.best && (await this.verifySelector(browser, selectorToVerify))) {
+      if (aiRes && aiRes.best && (await verify(selectorToVerify, aiRes.best))) {
         log('✓ AI selector verified successfully' + (isRetry ? ` (on retry ${attempt})` : ''));
-        this.cache.set(key, aiRes);
-        log('Result: Using AI-generated selector');
+        await this.storeResult(key, aiRes, !!cached, fingerprint);
+        log(isFallback ? 'Result: Using fallback selector' : 'Result: Using AI-generated selector');
         return aiRes;
       }
       log('✗ AI primary selector failed verification');
@@ -153,7 +367,7 @@ export class LocatorEngine {
               aiRes.isTemplate && variables ? interpolateLocator(bestXPath, variables) : bestXPath;
             log('Testing best XPath:', bestXPathToVerify, aiRes.isTemplate ? '(interpolated)' : '');
 
-            if (await this.verifySelector(browser, bestXPathToVerify)) {
+            if (await verify(bestXPathToVerify, bestXPath)) {
               log(
                 '✓ Best scored XPath alternate verified:',
                 bestXPath,
@@ -163,9 +377,13 @@ export class LocatorEngine {
               const res: LocatorResult = {
                 best: bestXPath,
                 alternates: aiRes.alternates.filter((a) => a !== bestXPath),
-                isTemplate: aiRes.isTemplate
+                isTemplate: aiRes.isTemplate,
+                metadata: aiRes.metadata,
+                frame: aiRes.frame,
+                provider: aiRes.provider,
+                model: aiRes.model
               };
-              this.cache.set(key, res);
+              await this.storeResult(key, res, !!cached, fingerprint);
               log(
                 'Result: Using smart-selected XPath alternate' +
                   (isRetry ? ` (on retry ${attempt})` : '')
@@ -187,14 +405,18 @@ export class LocatorEngine {
             aiRes.isTemplate ? '(interpolated)' : ''
           );
 
-          if (await this.verifySelector(browser, altToVerify)) {
+          if (await verify(altToVerify, alt)) {
             log('✓ Alternate selector verified successfully:', alt);
             const res: LocatorResult = {
               best: alt,
               alternates: aiRes.alternates,
-              isTemplate: aiRes.isTemplate
+              isTemplate: aiRes.isTemplate,
+              metadata: aiRes.metadata,
+              frame: aiRes.frame,
+              provider: aiRes.provider,
+              model: aiRes.model
             };
-            this.cache.set(key, res);
+            await this.storeResult(key, res, !!cached, fingerprint);
             log('Result: Using AI alternate selector' + (isRetry ? ` (on retry ${attempt})` : ''));
             return res;
           }
@@ -219,17 +441,223 @@ export class LocatorEngine {
     );
   }
 
-  private async verifySelector(browser: WebdriverIO.Browser, selector: string): Promise<boolean> {
-    if (!selector) return false;
+  /**
+   * Run the deterministic strategies that fit the description and accept the first
+   * candidate that matches exactly one element on the page (and passes the requested level).
+   */
+  private async tryStrategies(
+    root: WebdriverIO.Browser | WebdriverIO.Element,
+    desc: string,
+    url: string,
+    verification: VerificationLevel,
+    scoped: boolean
+  ): Promise<LocatorResult | undefined> {
+    const candidates = this.strategies.candidatesFor(desc, url);
+    const level = strictestLevel(verification, 'unique');
+    log('Strategy candidates:', candidates.length, 'from', this.strategies.names());
+
+    for (const candidate of candidates) {
+      const selector = scoped ? toRelativeXPath(candidate.selector) : candidate.selector;
+      const outcome = await verifySelector(root, selector, level);
+      log(`  ${candidate.strategy}:`, outcome.count, 'match(es)');
+      if (outcome.ok) {
+        log('✓ Strategy matched a unique element:', candidate.strategy);
+        return {
+          best: selector,
+          alternates: [],
+          isTemplate: false,
+          metadata: { source: 'strategy', strategy: candidate.strategy }
+        };
+      }
+    }
+
+    log('○ No strategy produced a unique match');
+    return undefined;
+  }
+
+  /**
+   * Cache a resolved locator with how it was produced. Fallback results are only cached when
+   * cacheFallbacks is enabled, so a heuristic guess made while the LLM was down is not reused as
+   * if the AI produced it. Counters carry over from the entry it replaces, and createdAt too while
+   * the selector is unchanged; healed says that entry failed verification.
+   */
+  private async storeResult(
+    key: string,
+    result: LocatorResult,
+    healed: boolean,
+    fingerprint?: string
+  ) {
+    const source = result.metadata?.source ?? 'llm';
+    if (source === 'fallback' && !this.cacheFallbacks) {
+      log('○ Fallback selector not cached (cacheFallbacks disabled)');
+      return;
+    }
+    const previous = await this.cache.get(key);
+    const now = new Date().toISOString();
+    await this.cache.set(key, {
+      ...result,
+      source,
+      // maxAge counts from when the selector was first produced, not when it was found again
+      createdAt: previous?.best === result.best ? (previous.createdAt ?? now) : now,
+      lastVerifiedAt: now,
+      hitCount: previous?.hitCount ?? 0,
+      healCount: (previous?.healCount ?? 0) + (healed ? 1 : 0),
+      ...(fingerprint ? { domFingerprint: fingerprint } : {})
+    });
+  }
+
+  /**
+   * Verify a selector inside its frame. A frame that cannot be entered (removed since the entry
+   * was cached, or made up by the AI) fails verification like a selector that matches nothing.
+   */
+  private async verifyInFrame(
+    browser: WebdriverIO.Browser,
+    root: WebdriverIO.Browser | WebdriverIO.Element,
+    frame: number[] | undefined,
+    selector: string,
+    level: VerificationLevel
+  ): Promise<VerificationResult> {
     try {
-      const el = await browser.$(selector);
-      const exists = await el.isExisting();
-      log('verifySelector', selector, exists);
-      return exists;
-    } catch (err) {
-      log('verifySelector error', err);
-      return false;
+      return await withFrame(browser, frame, () => verifySelector(root, selector, level));
+    } catch (err: any) {
+      log('✗ Could not enter frame', frame?.join('.'), err?.message);
+      return {
+        ok: false,
+        count: 0,
+        reason: 'not-found',
+        error: `frame ${frame?.join('.')} could not be entered`
+      };
+    }
+  }
+
+  /**
+   * Record why a selector was rejected so the next AI attempt can avoid it
+   */
+  private noteRejection(feedback: string[], selector: string, outcome: VerificationResult) {
+    const note = describeFailure(selector, outcome);
+    if (note && !feedback.includes(note)) {
+      log('Rejected selector recorded for retry feedback:', note);
+      feedback.push(note);
+    }
+  }
+
+  /**
+   * Read and minimise the DOM: the given snippet, the container's HTML for scoped lookups,
+   * or the page. Native contexts have no HTML or JavaScript, only Appium's view hierarchy XML.
+   * Returns the minimised DOM along with the page as read.
+   */
+  private async captureDom(
+    browser: WebdriverIO.Browser,
+    platform: Platform,
+    desc: string,
+    contextDomSnippet?: DomSource,
+    scope?: LocatorScope
+  ): Promise<{ dom: string; page: string }> {
+    const snippet =
+      typeof contextDomSnippet === 'function' ? await contextDomSnippet() : contextDomSnippet;
+    const rawDom =
+      snippet ||
+      (platform !== 'web'
+        ? await browser.getPageSource()
+        : scope
+          ? await scope.element.getHTML({ pierceShadowRoot: false, prettify: false })
+          : await this.capturePageDom(browser));
+    const rawDomStr = typeof rawDom === 'string' ? rawDom : JSON.stringify(rawDom);
+    // Over budget, the parts of the page most relevant to the description are kept
+    const dom =
+      platform === 'web'
+        ? extractMinimalDom(rawDomStr, this.maxDomChars, desc, this.domProfile)
+        : extractMinimalNativeDom(rawDomStr, this.maxDomChars, desc);
+
+    log('DOM Statistics:');
+    log('  - Original DOM size:', rawDomStr.length, 'characters');
+    log('  - Trimmed DOM size:', dom.length, 'characters');
+    log('  - Reduction:', Math.round((1 - dom.length / rawDomStr.length) * 100) + '%');
+
+    log('\n📄 Trimmed DOM sent to AI:');
+    log('─'.repeat(80));
+    log(dom);
+    log('─'.repeat(80));
+    log('');
+    return { dom, page: rawDomStr };
+  }
+
+  private async captureSnapshot(
+    browser: WebdriverIO.Browser,
+    scope?: LocatorScope
+  ): Promise<AccessibilitySnapshot> {
+    const snapshot = await browser.execute(
+      captureAccessibilitySnapshot,
+      (scope?.element ?? null) as unknown as Element
+    );
+    log('Accessibility snapshot:', Object.keys(snapshot.refs).length, 'entries');
+    log(snapshot.text);
+    return snapshot;
+  }
+
+  /**
+   * Swap the ref the AI chose for the selectors captured with the snapshot. Any selectors the
+   * AI wrote itself (hybrid mode) stay on as alternates. An unknown ref is reported back.
+   */
+  private resolveRef(
+    result: LocatorResult,
+    snapshot: AccessibilitySnapshot | undefined,
+    feedback: string[]
+  ): LocatorResult {
+    const { ref, ...rest } = result;
+    if (!ref) return rest;
+
+    const selectors = snapshot?.refs[ref] ?? [];
+    const own = [rest.best, ...(rest.alternates ?? [])].filter(Boolean);
+    if (!selectors.length) {
+      const note = `ref ${ref} is not in the accessibility snapshot`;
+      log('✗', note);
+      if (!feedback.includes(note)) feedback.push(note);
+      return { ...rest, best: own[0] ?? '', alternates: own.slice(1) };
+    }
+
+    log(`✓ Ref ${ref} resolved to:`, selectors);
+    const alternates = [...selectors.slice(1), ...own].filter(
+      (selector, index, all) => selector !== selectors[0] && all.indexOf(selector) === index
+    );
+    return { ...rest, best: selectors[0], alternates };
+  }
+
+  private capturePageDom(browser: WebdriverIO.Browser): Promise<string> {
+    if (this.shadowDom || this.frames) {
+      log('Capturing DOM with', { shadowDom: this.shadowDom, frames: this.frames });
+      return browser.execute(serializePageDom, {
+        shadowRoot: this.shadowDom ? SHADOW_ROOT_MARKER : undefined,
+        frame: this.frames ? FRAME_MARKER : undefined
+      });
     }
+    return browser.execute(() => document.documentElement.outerHTML);
+  }
+
+  /**
+   * Add '>>>' deep variants of CSS selectors as extra alternates, in case the model
+   * returned a plain selector for an element that lives inside a shadow root
+   */
+  private withDeepAlternates(result: LocatorResult): LocatorResult {
+    const selectors = [result.best, ...(result.alternates ?? [])];
+    const deep = selectors
+      .map((selector) => toDeepSelector(selector))
+      .filter(
+        (selector, index, all) => !selectors.includes(selector) && all.indexOf(selector) === index
+      );
+    if (deep.length) log('Shadow DOM present, adding deep alternates:', deep);
+    return { ...result, alternates: [...(result.alternates ?? []), ...deep] };
+  }
+
+  /**
+   * Rewrite XPath selectors from a scoped lookup so they search inside the container only
+   */
+  private toRelative(result: LocatorResult): LocatorResult {
+    return {
+      ...result,
+      best: toRelativeXPath(result.best),
+      alternates: result.alternates?.map((alt) => toRelativeXPath(alt))
+    };
   }
 
   private isXPath(selector: string): boolean {
@@ -242,3 +670,29 @@ export class LocatorEngine {
     );
   }
 }
+
+/**
+ * Build the engine for a set of service options. The service creates one per worker and shares
+ * it with the browser commands, so both read and write the same cache.
+ */
+export function createLocatorEngine(llmClient: LLMClient, options: ServiceOptions = {}) {
+  const provider = new AiLocatorProvider(llmClient);
+  const cache = new LocatorCache(createCacheStore(options.cacheStore, options.cachePath), {
+    ttl: options.cacheTtl,
+    maxAge: options.cacheMaxAge
+  });
+  const strategies = new StrategyRegistry(options.strategies, options.disabledStrategies);
+  return new LocatorEngine(cache, provider, options.maxRetries ?? 2, {
+    strategies,
+    cacheFallbacks: options.cacheFallbacks,
+    verification: options.verification,
+    shadowDom: options.shadowDom,
+    frames: options.frames,
+    contextMode: options.contextMode,
+    maxDomChars: options.maxDomChars,
+    maxDomTokens: options.maxDomTokens,
+    domProfile: options.domProfile,
+    urlNormalization: options.urlNormalization,
+    cacheKeyFn: options.cacheKeyFn
+  });
+}
@@ -22,12 +22,12 @@ export function textContainsSelector(text: string) {
 
 /**
  * Enhanced data-testid selector
- * Tries multiple data-* attributes commonly used for testing
+ * Tries multiple data-* attributes commonly used for testing, matching the whole value
  */
 export function dataTestIdSelector(text: string) {
   const key = text.toLowerCase().replace(/\s+/g, '-');
   // Try multiple test attribute variations
-  return `[data-testid*="${key}"],[data-test*="${key}"],[data-qa*="${key}"],[data-cy*="${key}"]`;
+  return `[data-testid="${key}"],[data-test="${key}"],[data-qa="${key}"],[data-cy="${key}"]`;
 }
 
 /**
@@ -35,39 +35,38 @@ export function dataTestIdSelector(text: string) {
  * Handles buttons, input[type=button], input[type=submit], and role=button
  */
 export function buttonByTextSelector(text: string) {
-  const lowerText = text.toLowerCase();
-  const escapedLower = escapeXPathQuotes(lowerText);
+  const escapedLower = escapeXPathQuotes(text.toLowerCase());
 
-  // Multiple button patterns:
+  // Multiple button patterns, each on the whole label (case-insensitive):
   // 1. button element with text
   // 2. input with type button/submit and value
   // 3. Elements with role="button" and text
-  // 4. Links that look like buttons
-  return `xpath=//button[contains(translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), ${escapedLower})] | //input[@type='button' or @type='submit'][contains(translate(@value, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), ${escapedLower})] | //*[@role='button'][contains(translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), ${escapedLower})]`;
+  return `xpath=//button[${lowerCase('normalize-space(.)')}=${escapedLower}] | //input[@type='button' or @type='submit'][${lowerCase('normalize-space(@value)')}=${escapedLower}] | //*[@role='button'][${lowerCase('normalize-space(.)')}=${escapedLower}]`;
 }
 
 /**
  * Link selector strategy
- * Handles anchor tags with text or aria-label
+ * Handles anchor tags whose whole text or aria-label is the text
  */
 export function linkByTextSelector(text: string) {
-  const lowerText = text.toLowerCase();
-  const escapedLower = escapeXPathQuotes(lowerText);
+  const escapedLower = escapeXPathQuotes(text.toLowerCase());
 
-  return `xpath=//a[contains(translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), ${escapedLower}) or contains(translate(@aria-label, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), ${escapedLower})]`;
+  return `xpath=//a[${lowerCase('normalize-space(.)')}=${escapedLower} or ${lowerCase('normalize-space(@aria-label)')}=${escapedLower}]`;
 }
 
 /**
  * Label-based input selector
- * Finds inputs associated with labels containing the text
+ * Finds inputs associated with labels reading the text (a trailing ':' or '*' is ignored)
  */
 export function inputByLabelSelector(text: string) {
-  const escaped = escapeXPathQuotes(text);
+  const escapedLower = escapeXPathQuotes(text.toLowerCase());
+  const label = `//label[${lowerCase("normalize-space(translate(., ':*', ''))")}=${escapedLower}]`;
+  const named = `[${lowerCase('normalize-space(@aria-label)')}=${escapedLower} or ${lowerCase('normalize-space(@placeholder)')}=${escapedLower}]`;
 
-  // Strategy 1: label with for attribute
+  // Strategy 1: control referenced by the label's for attribute
   // Strategy 2: input inside label
   // Strategy 3: input with aria-label or placeholder
-  return `xpath=//label[contains(normalize-space(.), ${escaped})]/@for | //label[contains(normalize-space(.), ${escaped})]//input | //label[contains(normalize-space(.), ${escaped})]//textarea | //label[contains(normalize-space(.), ${escaped})]//select | //input[@aria-label=${escaped} or @placeholder=${escaped}] | //textarea[@aria-label=${escaped} or @placeholder=${escaped}]`;
+  return `xpath=//*[@id=${label}/@for] | ${label}//input | ${label}//textarea | ${label}//select | //input${named} | //textarea${named}`;
 }
 
 /**
@@ -75,14 +74,14 @@ export function inputByLabelSelector(text: string) {
  * Uses ARIA roles and accessible names
  */
 export function ariaRoleSelector(text: string) {
-  const lowerText = text.toLowerCase();
+  const escapedLower = escapeXPathQuotes(text.toLowerCase());
 
   // Common interactive roles
   const roles = ['button', 'link', 'tab', 'menuitem', 'option', 'checkbox', 'radio', 'textbox'];
   const rolePaths = roles
     .map(
       (role) =>
-        `//*[@role='${role}'][contains(translate(@aria-label, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), '${lowerText}') or contains(translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), '${lowerText}')]`
+        `//*[@role='${role}'][${lowerCase('normalize-space(@aria-label)')}=${escapedLower} or ${lowerCase('normalize-space(.)')}=${escapedLower}]`
     )
     .join(' | ');
 
@@ -113,6 +112,57 @@ export function cssCandidate(selector: string) {
   return selector;
 }
 
+/**
+ * A selector produced by a named strategy, ready to be verified against the page
+ */
+export interface StrategyCandidate {
+  strategy: string;
+  selector: string;
+}
+
+// Words that describe the kind of element rather than the element itself
+const ELEMENT_TYPE_WORDS = [
+  'the',
+  'a',
+  'an',
+  'button',
+  'btn',
+  'link',
+  'input',
+  'field',
+  'textbox',
+  'textarea',
+  'box',
+  'heading',
+  'header',
+  'title',
+  'text',
+  'element'
+];
+
+/**
+ * Extract the visible text a description refers to.
+ * Quoted text wins ('the "Sign in" link' -> 'Sign in'), otherwise element-type words are dropped
+ * ('login button' -> 'login').
+ */
+export function extractTargetText(description: string): string {
+  const quotedMatch = description.match(/"([^"]+)"/);
+  if (quotedMatch) {
+    return quotedMatch[1].trim();
+  }
+
+  return description
+    .split(/\s+/)
+    .filter((word) => word && !ELEMENT_TYPE_WORDS.includes(word.toLowerCase()))
+    .join(' ')
+    .trim();
+}
+
+// XPath 1.0 has no lower-case(), so case-insensitive matches translate both sides
+function lowerCase(expression: string): string {
+  return `translate(${expression}, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz')`;
+}
+
 /**
  * Escape quotes in XPath expressions properly
  * Handles both single and double quotes
@@ -0,0 +1,139 @@
+import { log, logWarn } from '../utils/logger';
+import {
+  buttonByTextSelector,
+  linkByTextSelector,
+  inputByLabelSelector,
+  headingSelector,
+  dataTestIdSelector,
+  ariaRoleSelector,
+  textExactSelector,
+  extractTargetText,
+  StrategyCandidate
+} from './strategies';
+
+/**
+ * Information passed to every strategy alongside the description
+ */
+export interface StrategyContext {
+  /** Current page URL */
+  url: string;
+  /** Visible text the description refers to ('login button' -> 'login'; '' for 'search field') */
+  text: string;
+}
+
+/**
+ * A strategy returns one or more selectors to try, or nothing when it does not apply
+ */
+export type StrategyFn = (
+  description: string,
+  context: StrategyContext
+) => string | string[] | undefined | null;
+
+export interface LocatorStrategy {
+  name: string;
+  build: StrategyFn;
+}
+
+function mentions(description: string, words: string[]): boolean {
+  const lower = description.toLowerCase();
+  return words.some((word) => new RegExp(`\\b${word}\\b`).test(lower));
+}
+
+/**
+ * Built-in strategies, in the order they run.
+ * Element-specific strategies come first, generic text and attribute strategies last.
+ */
+export const BUILT_IN_STRATEGIES: LocatorStrategy[] = [
+  {
+    name: 'buttonByText',
+    build: (desc, { text }) =>
+      mentions(desc, ['button', 'btn']) ? buttonByTextSelector(text) : undefined
+  },
+  {
+    name: 'linkByText',
+    build: (desc, { text }) => (mentions(desc, ['link']) ? linkByTextSelector(text) : undefined)
+  },
+  {
+    name: 'inputByLabel',
+    build: (desc, { text }) =>
+      mentions(desc, ['input', 'field', 'textbox', 'textarea', 'box'])
+        ? inputByLabelSelector(text)
+        : undefined
+  },
+  {
+    name: 'heading',
+    build: (desc, { text }) =>
+      mentions(desc, ['heading', 'header', 'title']) ? headingSelector(text) : undefined
+  },
+  { name: 'dataTestId', build: (_desc, { text }) => dataTestIdSelector(text) },
+  { name: 'ariaRole', build: (_desc, { text }) => ariaRoleSelector(text) },
+  { name: 'textExact', build: (_desc, { text }) => textExactSelector(text) }
+];
+
+/**
+ * Ordered set of deterministic strategies tried before the AI.
+ * Custom strategies run first, followed by the built-ins that were not disabled.
+ * A custom strategy with the same name as a built-in replaces it.
+ */
+export class StrategyRegistry {
+  strategies: LocatorStrategy[];
+  private customNames: Set<string>;
+
+  constructor(custom: LocatorStrategy[] = [], disabled: string[] = []) {
+    const customNames = new Set(custom.map((s) => s.name));
+    this.customNames = customNames;
+    const builtInNames = new Set(BUILT_IN_STRATEGIES.map((s) => s.name));
+
+    for (const name of disabled) {
+      if (!builtInNames.has(name) && !customNames.has(name)) {
+        logWarn(`Unknown strategy "${name}" in disabledStrategies, ignoring`);
+      }
+    }
+
+    this.strategies = [
+      ...custom,
+      ...BUILT_IN_STRATEGIES.filter((s) => !customNames.has(s.name))
+    ].filter((s) => !disabled.includes(s.name));
+
+    log(
+      'StrategyRegistry initialized:',
+      this.strategies.map((s) => s.name)
+    );
+  }
+
+  names(): string[] {
+    return this.strategies.map((s) => s.name);
+  }
+
+  /**
+   * Build the ordered list of candidates for a description.
+   * The xpath= prefix is stripped because WebdriverIO's $() detects XPath natively.
+   * Built-ins need target text ('button' alone has none); custom strategies are always asked.
+   */
+  candidatesFor(description: string, url: string): StrategyCandidate[] {
+    const text = extractTargetText(description);
+    const context: StrategyContext = { url, text };
+    const candidates: StrategyCandidate[] = [];
+
+    for (const strategy of this.strategies) {
+      if (!text && !this.customNames.has(strategy.name)) continue;
+
+      let produced: string | string[] | undefined | null;
+      try {
+        produced = strategy.build(description, context);
+      } catch (err) {
+        logWarn(`Strategy "${strategy.name}" threw, skipping:`, err);
+        continue;
+      }
+
+      const selectors = Array.isArray(produced) ? produced : produced ? [produced] : [];
+      for (const selector of selectors) {
+        if (selector && selector.trim()) {
+          candidates.push({ strategy: strategy.name, selector: selector.replace(/^xpath=/, '') });
+        }
+      }
+    }
+
+    return candidates;
+  }
+}
@@ -0,0 +1,101 @@
+import { log } from '../utils/logger';
+
+/**
+ * How strictly a selector is checked before it is accepted. Each level includes the ones before it:
+ * - 'exists': matches at least one element
+ * - 'unique': matches exactly one element
+ * - 'visible': unique, and the element is displayed
+ * - 'interactable': visible, and the element is enabled
+ */
+export type VerificationLevel = 'exists' | 'unique' | 'visible' | 'interactable';
+
+export const VERIFICATION_LEVELS: VerificationLevel[] = [
+  'exists',
+  'unique',
+  'visible',
+  'interactable'
+];
+
+export type VerificationFailure = 'not-found' | 'multiple' | 'hidden' | 'disabled' | 'invalid';
+
+export interface VerificationResult {
+  ok: boolean;
+  /** Number of elements the selector matched */
+  count: number;
+  reason?: VerificationFailure;
+  error?: string;
+}
+
+/**
+ * Return the stricter of two levels
+ */
+export function strictestLevel(a: VerificationLevel, b: VerificationLevel): VerificationLevel {
+  return VERIFICATION_LEVELS.indexOf(a) >= VERIFICATION_LEVELS.indexOf(b) ? a : b;
+}
+
+/**
+ * Check a selector against the page, or within a container element, at the requested level
+ */
+export async function verifySelector(
+  root: WebdriverIO.Browser | WebdriverIO.Element,
+  selector: string,
+  level: VerificationLevel = 'exists'
+): Promise<VerificationResult> {
+  if (!selector) return { ok: false, count: 0, reason: 'invalid', error: 'empty selector' };
+
+  let elements: WebdriverIO.Element[];
+  try {
+    elements = (await (root as WebdriverIO.Browser).$$(
+      selector
+    )) as unknown as WebdriverIO.Element[];
+  } catch (err: any) {
+    log('verifySelector error', selector, err);
+    return { ok: false, count: 0, reason: 'invalid', error: err?.message };
+  }
+
+  const count = elements.length;
+  const result = await checkElements(elements, level);
+  log('verifySelector', selector, { level, count, ok: result.ok, reason: result.reason });
+  return { ...result, count };
+}
+
+/**
+ * Explain in one line why a selector was rejected, for the retry prompt
+ */
+export function describeFailure(selector: string, result: VerificationResult): string | undefined {
+  switch (result.reason) {
+    case 'not-found':
+      return `${selector} matched no elements${result.error ? ` (${result.error})` : ''}`;
+    case 'multiple':
+      return `${selector} matched ${result.count} elements; a selector matching exactly one element is required`;
+    case 'hidden':
+      return `${selector} matched an element that is not visible`;
+    case 'disabled':
+      return `${selector} matched an element that is disabled`;
+    case 'invalid':
+      return `${selector} is not a valid selector${result.error ? ` (${result.error})` : ''}`;
+    default:
+      return undefined;
+  }
+}
+
+async function checkElements(
+  elements: WebdriverIO.Element[],
+  level: VerificationLevel
+): Promise<Omit<VerificationResult, 'count'>> {
+  if (elements.length === 0) return { ok: false, reason: 'not-found' };
+  if (level === 'exists') return { ok: true };
+  if (elements.length > 1) return { ok: false, reason: 'multiple' };
+  if (level === 'unique') return { ok: true };
+
+  const [element] = elements;
+  try {
+    if (!(await element.isDisplayed())) return { ok: false, reason: 'hidden' };
+    if (level === 'interactable' && !(await element.isEnabled())) {
+      return { ok: false, reason: 'disabled' };
+    }
+  } catch (err: any) {
+    return { ok: false, reason: 'invalid', error: err?.message };
+  }
+  return { ok: true };
+}
@@ -1,8 +1,15 @@
 import { ServiceOptions } from './types';
-import { LocatorCache } from './locator/cache';
-import { OpenAIClient, OllamaClient, OpenAIRouterClient, LLMClient } from './ai/llmClient';
-import { AiLocatorProvider } from './locator/aiLocatorProvider';
-import { LocatorEngine } from './locator/locatorEngine';
+import {
+  OpenAIClient,
+  OllamaClient,
+  OpenAIRouterClient,
+  AnthropicClient,
+  AzureOpenAIClient,
+  GeminiClient,
+  BaseLLMClient,
+  LLMClient
+} from './ai/llmClient';
+import { LocatorEngine, createLocatorEngine } from './locator/locatorEngine';
 import { registerAiLocator } from './commands/findLocator';
 import { log } from './utils/logger';
 
@@ -68,24 +75,74 @@ export default class AiLocatorService {
         log('AiLocatorService using Ollama client');
         break;
 
+      case 'anthropic':
+        if (!this.options.apiKey) {
+          throw new Error('Anthropic API key is required');
+        }
+        this.client = new AnthropicClient(
+          this.options.apiKey,
+          this.options.model,
+          enableUsageTracking,
+          this.options.usageCachePath,
+          this.options.baseUrl
+        );
+        log('AiLocatorService using Anthropic client');
+        break;
+
+      case 'azure-openai':
+        if (!this.options.apiKey) {
+          throw new Error('Azure OpenAI API key is required');
+        }
+        if (!this.options.resourceEndpoint || !this.options.deployment) {
+          throw new Error('Azure OpenAI requires resourceEndpoint and deployment');
+        }
+        this.client = new AzureOpenAIClient(
+          this.options.apiKey,
+          this.options.resourceEndpoint,
+          this.options.deployment,
+          this.options.apiVersion,
+          enableUsageTracking,
+          this.options.usageCachePath
+        );
+        log('AiLocatorService using Azure OpenAI client');
+        break;
+
+      case 'gemini':
+        if (!this.options.apiKey) {
+          throw new Error('Gemini API key is required');
+        }
+        this.client = new GeminiClient(
+          this.options.apiKey,
+          this.options.model,
+          enableUsageTracking,
+          this.options.usageCachePath,
+          this.options.baseUrl
+        );
+        log('AiLocatorService using Gemini client');
+        break;
+
       default:
         throw new Error(`Unsupported LLM provider: ${provider}`);
     }
 
-    const aiProvider = new AiLocatorProvider(this.client);
-    const cache = new LocatorCache(this.options.cachePath);
-    const maxRetries = this.options.maxRetries ?? 2; // Default to 2 retries
-    this.engine = new LocatorEngine(cache, aiProvider, maxRetries);
-    log('AiLocatorService created engine with maxRetries:', maxRetries);
+    if (this.client instanceof BaseLLMClient) {
+      this.client.structuredOutput = this.options.structuredOutput ?? true;
+    }
+
+    // One engine per worker: the commands resolve through it, so they share its cache
+    this.engine = createLocatorEngine(this.client, this.options);
+    log('AiLocatorService created engine with maxRetries:', this.engine.maxRetries);
+
+    if (this.options.cacheTtl !== undefined || this.options.cacheMaxAge !== undefined) {
+      const pruned = await this.engine.cache.prune();
+      log('AiLocatorService pruned', pruned.length, 'expired cache entries');
+    }
 
     // Register commands here with browser instance
-    if (browser && this.client) {
+    if (browser) {
       try {
-        registerAiLocator(browser, {
-          cachePath: this.options.cachePath,
-          llmClient: this.client,
-          maxRetries: this.options.maxRetries ?? 2
-        });
+        registerAiLocator(browser, this.commandOptions());
+        this.registered = true;
         log('AiLocatorService registered aiLocator command in before() hook');
       } catch (err) {
         log('error registering aiLocator in before()', err);
@@ -93,6 +150,11 @@ export default class AiLocatorService {
     }
   }
 
+  async after(_result: number, _capabilities: WebdriverIO.Capabilities, _specs: string[]) {
+    // Cache hits are counted in memory during the run and written once at the end
+    await this.engine?.cache.flush();
+  }
+
   async beforeSession(
     _config: WebdriverIO.Config,
     _capabilities: WebdriverIO.Capabilities,
@@ -116,7 +178,7 @@ export default class AiLocatorService {
     }
 
     try {
-      if (globalThis.browser && this.client) {
+      if (globalThis.browser && this.engine) {
         log(`[${hookName}] Attempting to register aiLocator command...`);
         log(`[${hookName}] browser object available:`, !!globalThis.browser);
         log(
@@ -124,11 +186,10 @@ export default class AiLocatorService {
           typeof (globalThis.browser as any).addCommand
         );
 
-        registerAiLocator(globalThis.browser as unknown as WebdriverIO.Browser, {
-          cachePath: this.options.cachePath,
-          llmClient: this.client,
-          maxRetries: this.options.maxRetries ?? 2
-        });
+        registerAiLocator(
+          globalThis.browser as unknown as WebdriverIO.Browser,
+          this.commandOptions()
+        );
 
         this.registered = true;
         log(`[${hookName}] ✓ Successfully registered aiLocator command`);
@@ -140,8 +201,8 @@ export default class AiLocatorService {
         log(
           `[${hookName}] Cannot register - browser:`,
           !!globalThis.browser,
-          'client:',
-          !!this.client
+          'engine:',
+          !!this.engine
         );
       }
     } catch (err: any) {
@@ -149,4 +210,8 @@ export default class AiLocatorService {
       log(`[${hookName}] Error stack:`, err.stack);
     }
   }
+
+  private commandOptions() {
+    return { engine: this.engine, healOnAction: this.options.healOnAction };
+  }
 }
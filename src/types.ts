@@ -1,16 +1,44 @@
-export type LLMProvider = 'openai' | 'openai-router' | 'ollama';
+import type { LocatorStrategy } from './locator/strategyRegistry';
+import type { VerificationLevel } from './locator/verification';
+import type { ContextMode } from './utils/accessibilitySnapshot';
+import type { DomProfile } from './utils/domParser';
+import type { CacheStore, CacheStoreKind } from './locator/cacheStores';
+import type { CacheKeyFn, UrlNormalization } from './utils/urlNormalization';
+
+export type LLMProvider =
+  'openai' | 'openai-router' | 'ollama' | 'anthropic' | 'azure-openai' | 'gemini';
 
 export interface ServiceOptions {
   provider?: LLMProvider; // LLM provider to use (default: 'openai')
   apiKey?: string;
   model?: string;
-  baseUrl?: string; // Custom base URL for OpenAI Router or Ollama
-  cachePath?: string;
+  baseUrl?: string; // Custom base URL for OpenAI, OpenAI Router, Ollama, Anthropic or Gemini
+  resourceEndpoint?: string; // Azure OpenAI resource endpoint, e.g. https://my-resource.openai.azure.com
+  deployment?: string; // Azure OpenAI deployment name
+  apiVersion?: string; // Azure OpenAI api-version query parameter (default: '2024-10-21')
+  cachePath?: string; // File, directory or database for the locator cache, depending on cacheStore
+  cacheStore?: CacheStoreKind | CacheStore; // 'file' (default), 'directory' (one file per page), 'sqlite' (Node.js 22.5+) or a custom store
+  urlNormalization?: UrlNormalization | false; // How URLs become cache scopes: query stripped, numeric/UUID segments collapsed, route patterns (false = raw URL)
+  cacheKeyFn?: CacheKeyFn; // (url, description) => cache scope, replacing the normalised URL
+  cacheTtl?: number; // Evict cache entries that have not passed verification for this many milliseconds
+  cacheMaxAge?: number; // Evict cache entries whose selector is older than this many milliseconds, so it is produced again
   debug?: boolean;
   llmClient?: any;
   enableUsageTracking?: boolean; // Enable AI usage tracking to .ai-locator-usage-cache.json
   usageCachePath?: string; // Custom path for usage cache file
   maxRetries?: number; // Maximum number of AI retry attempts if locator fails (default: 2)
+  verification?: VerificationLevel; // How strictly selectors are checked: 'exists' | 'unique' | 'visible' | 'interactable' (default: 'exists')
+  structuredOutput?: boolean; // Request schema-constrained JSON from the provider (default: true)
+  cacheFallbacks?: boolean; // Cache heuristic fallback selectors used while the LLM was unavailable (default: false)
+  shadowDom?: boolean; // Include open shadow roots in the DOM sent to the AI and allow '>>>' deep selectors (default: false)
+  frames?: boolean; // Include same-origin iframe documents in the DOM sent to the AI and switch into the element's frame (default: false)
+  contextMode?: ContextMode; // 'html' (default) sends sanitised HTML, 'a11y' an accessibility snapshot the AI picks a ref from, 'hybrid' both
+  maxDomChars?: number; // Size budget for the DOM sent to the AI; larger pages keep the parts most relevant to the description (default: 10000)
+  maxDomTokens?: number; // Same budget in tokens (~4 characters each); overrides maxDomChars
+  domProfile?: DomProfile; // Extra or replacement tags and attributes, custom elements to keep, noisy attributes and hashed classes to drop
+  healOnAction?: boolean; // Re-resolve and retry actions once when an aiElement goes stale or is not interactable (default: false)
+  strategies?: LocatorStrategy[]; // Custom deterministic strategies, tried in order before the built-ins
+  disabledStrategies?: string[]; // Names of strategies to skip (e.g. ['textExact', 'ariaRole'])
 }
 
 export interface LocatorResult {
@@ -22,4 +50,34 @@ export interface LocatorResult {
    * that should be interpolated before use
    */
   isTemplate?: boolean;
+  /**
+   * Frame the element lives in, as indexes of iframe/frame elements from the top-level document
+   * inward. Absent for elements in the top-level document.
+   */
+  frame?: number[];
+  /**
+   * Accessibility snapshot ref the AI chose. Only set on fresh AI answers; the engine replaces it
+   * with the ref's selectors before anything is cached.
+   */
+  ref?: string;
+  /** When the entry was last written to the cache (ISO 8601); newer entries win when workers merge */
+  updatedAt?: string;
+  /** When this selector was produced (ISO 8601); a heal replaces the selector and resets it */
+  createdAt?: string;
+  /** When the selector last passed verification (ISO 8601) */
+  lastVerifiedAt?: string;
+  /** Lookups served from the cache; counts from parallel workers may be merged approximately */
+  hitCount?: number;
+  /** Times a cached selector failed verification and was replaced */
+  healCount?: number;
+  /** How the selector was produced */
+  source?: 'strategy' | 'llm' | 'fallback';
+  /** LLM client and model that produced the selector, for 'llm' entries */
+  provider?: string;
+  model?: string;
+  /**
+   * Hash of the page structure the selector was produced from: the tag sequence of the DOM, or
+   * the roles of the accessibility snapshot. Text and attribute values do not affect it.
+   */
+  domFingerprint?: string;
 }
@@ -0,0 +1,402 @@
+import { descriptionTokens } from './domChunker';
+
+/**
+ * Accessibility snapshot: a compact, line-per-element view of the page built in the browser.
+ * Each entry carries its role, accessible name, states and a ref id; the model picks a ref and
+ * the engine turns it into durable selectors captured alongside the snapshot.
+ */
+
+/**
+ * What the AI is shown to find an element:
+ * - 'html': the sanitised HTML DOM
+ * - 'a11y': the accessibility snapshot only; the AI answers with a ref
+ * - 'hybrid': both; the AI answers with a ref, selectors, or both
+ */
+export type ContextMode = 'html' | 'a11y' | 'hybrid';
+
+export interface AccessibilitySnapshot {
+  /** One line per element, indented by nesting: - button "Save" [disabled] [ref=e4] */
+  text: string;
+  /** Selectors for each ref, most durable first; unique matches are preferred */
+  refs: Record<string, string[]>;
+}
+
+/**
+ * Build the snapshot for the document, or for the subtree of root.
+ * Runs in the browser via browser.execute, so it must stay self-contained.
+ */
+export function captureAccessibilitySnapshot(root?: Element | null): AccessibilitySnapshot {
+  const start = root ?? document.body ?? document.documentElement;
+  const lines: string[] = [];
+  const refs: Record<string, string[]> = {};
+  let counter = 0;
+
+  const implicitRoles: Record<string, string> = {
+    A: 'link',
+    BUTTON: 'button',
+    SELECT: 'combobox',
+    TEXTAREA: 'textbox',
+    H1: 'heading',
+    H2: 'heading',
+    H3: 'heading',
+    H4: 'heading',
+    H5: 'heading',
+    H6: 'heading',
+    NAV: 'navigation',
+    MAIN: 'main',
+    HEADER: 'banner',
+    FOOTER: 'contentinfo',
+    ASIDE: 'complementary',
+    FORM: 'form',
+    DIALOG: 'dialog',
+    UL: 'list',
+    OL: 'list',
+    LI: 'listitem',
+    TABLE: 'table',
+    TR: 'row',
+    TD: 'cell',
+    TH: 'columnheader',
+    IMG: 'img',
+    OPTION: 'option',
+    SUMMARY: 'button'
+  };
+  const inputRoles: Record<string, string> = {
+    checkbox: 'checkbox',
+    radio: 'radio',
+    button: 'button',
+    submit: 'button',
+    reset: 'button',
+    image: 'button',
+    range: 'slider',
+    search: 'searchbox',
+    number: 'spinbutton'
+  };
+  // Roles whose accessible name comes from their text content
+  const nameFromContent = [
+    'button',
+    'link',
+    'heading',
+    'option',
+    'cell',
+    'columnheader',
+    'listitem',
+    'tab',
+    'menuitem',
+    'checkbox',
+    'radio',
+    'text'
+  ];
+  const skipped = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG'];
+
+  const clean = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim();
+  const clip = (value: string) => (value.length > 80 ? `${value.slice(0, 77)}...` : value);
+
+  const roleOf = (el: Element): string | undefined => {
+    const explicit = clean(el.getAttribute('role')).split(' ')[0];
+    if (explicit) return explicit === 'presentation' || explicit === 'none' ? undefined : explicit;
+    if (el.tagName === 'INPUT') {
+      const type = (el.getAttribute('type') || 'text').toLowerCase();
+      return type === 'hidden' ? undefined : (inputRoles[type] ?? 'textbox');
+    }
+    if (el.tagName === 'A' && !el.hasAttribute('href')) return undefined;
+    if (el.tagName === 'SECTION' && el.hasAttribute('aria-label')) return 'region';
+    if (implicitRoles[el.tagName]) return implicitRoles[el.tagName];
+    const tabIndex = el.getAttribute('tabindex');
+    if (tabIndex !== null && Number(tabIndex) >= 0) return 'generic';
+    return undefined;
+  };
+
+  const ownText = (el: Element) => {
+    let text = '';
+    el.childNodes.forEach((node) => {
+      if (node.nodeType === Node.TEXT_NODE) text += ` ${node.textContent}`;
+    });
+    return clean(text);
+  };
+
+  const nameOf = (el: Element, role: string): string => {
+    const labelledBy = clean(el.getAttribute('aria-labelledby'));
+    if (labelledBy) {
+      const text = labelledBy
+        .split(' ')
+        .map((id) => clean(document.getElementById(id)?.textContent))
+        .join(' ');
+      if (clean(text)) return clean(text);
+    }
+    const ariaLabel = clean(el.getAttribute('aria-label'));
+    if (ariaLabel) return ariaLabel;
+    if (['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName)) {
+      const id = el.getAttribute('id');
+      const label =
+        (id && document.querySelector(`label[for="${CSS.escape(id)}"]`)) || el.closest('label');
+      if (label) return clean(label.textContent);
+      const placeholder = clean(el.getAttribute('placeholder'));
+      if (placeholder) return placeholder;
+      if (['button', 'submit', 'reset'].includes((el.getAttribute('type') || '').toLowerCase())) {
+        return clean((el as HTMLInputElement).value);
+      }
+    }
+    if (el.tagName === 'IMG') return clean(el.getAttribute('alt'));
+    if (role === 'text') return ownText(el);
+    if (nameFromContent.includes(role)) return clean(el.textContent);
+    return clean(el.getAttribute('title'));
+  };
+
+  const statesOf = (el: Element, role: string): string[] => {
+    const states: string[] = [];
+    if ((el as HTMLInputElement).disabled || el.getAttribute('aria-disabled') === 'true') {
+      states.push('disabled');
+    }
+    if ((el as HTMLInputElement).checked || el.getAttribute('aria-checked') === 'true') {
+      states.push('checked');
+    }
+    const expanded = el.getAttribute('aria-expanded');
+    if (expanded) states.push(expanded === 'true' ? 'expanded' : 'collapsed');
+    if ((el as HTMLOptionElement).selected || el.getAttribute('aria-selected') === 'true') {
+      states.push('selected');
+    }
+    if ((el as HTMLInputElement).required || el.getAttribute('aria-required') === 'true') {
+      states.push('required');
+    }
+    if (role === 'heading') states.push(`level=${el.tagName.match(/^H(\d)$/)?.[1] ?? 2}`);
+    return states;
+  };
+
+  const isHidden = (el: Element) => {
+    if ((el as HTMLElement).hidden || el.getAttribute('aria-hidden') === 'true') return true;
+    const style = window.getComputedStyle(el);
+    return style.display === 'none' || style.visibility === 'hidden';
+  };
+
+  const quote = (value: string) =>
+    !value.includes('"') ? `"${value}"` : !value.includes("'") ? `'${value}'` : undefined;
+
+  const matchCount = (selector: string) => {
+    try {
+      if (selector.startsWith('/')) {
+        const xpath = root ? `.${selector}` : selector;
+        return document.evaluate(xpath, start, null, XPathResult.ORDERED_NODE_SNAPSHOT_TYPE, null)
+          .snapshotLength;
+      }
+      return (root ?? document).querySelectorAll(selector).length;
+    } catch (_error) {
+      return 0;
+    }
+  };
+
+  // Positional path from the root, used only when no attribute-based selector is unique
+  const structuralPath = (el: Element) => {
+    const parts: string[] = [];
+    let node: Element | null = el;
+    while (node && node !== root && node !== document.documentElement) {
+      const tag = node.tagName.toLowerCase();
+      const siblings = node.parentElement
+        ? Array.from(node.parentElement.children).filter((child) => child.tagName === node!.tagName)
+        : [];
+      parts.unshift(
+        siblings.length > 1 ? `${tag}:nth-of-type(${siblings.indexOf(node) + 1})` : tag
+      );
+      node = node.parentElement;
+    }
+    return root ? `:scope > ${parts.join(' > ')}` : `html > ${parts.join(' > ')}`;
+  };
+
+  const selectorsFor = (el: Element, role: string, name: string) => {
+    const tag = el.tagName.toLowerCase();
+    const candidates: string[] = [];
+    const id = el.getAttribute('id');
+    // Skip ids that look generated (long numbers, hashes, framework prefixes)
+    if (id && !/\d{4,}|[0-9a-f]{8,}|^[:_]|^(ember|react|radix|mui)/i.test(id)) {
+      candidates.push(`#${CSS.escape(id)}`);
+    }
+    for (const attr of ['data-testid', 'data-test-id', 'data-test', 'data-qa', 'data-cy']) {
+      const value = el.getAttribute(attr);
+      const quoted = value && quote(value);
+      if (quoted) candidates.push(`[${attr}=${quoted}]`);
+    }
+    for (const attr of ['name', 'aria-label', 'placeholder']) {
+      const value = el.getAttribute(attr);
+      const quoted = value && quote(value);
+      if (quoted) candidates.push(`${tag}[${attr}=${quoted}]`);
+    }
+    const text = role === 'text' ? ownText(el) : clean(el.textContent);
+    const quotedText = nameFromContent.includes(role) && name === text && text && quote(text);
+    if (quotedText) {
+      candidates.push(
+        role === 'text'
+          ? `//${tag}[normalize-space(text())=${quotedText}]`
+          : `//${tag}[normalize-space(.)=${quotedText}]`
+      );
+    }
+
+    const unique = candidates.filter((selector) => matchCount(selector) === 1);
+    return unique.length ? unique : [...candidates, structuralPath(el)];
+  };
+
+  const walk = (el: Element, depth: number) => {
+    if (skipped.includes(el.tagName.toUpperCase()) || isHidden(el)) return;
+
+    let role = roleOf(el);
+    if (!role && ownText(el)) role = 'text';
+
+    let childDepth = depth;
+    if (role) {
+      const name = clip(nameOf(el, role));
+      // Unnamed generic containers add noise without helping the model
+      if (role !== 'generic' || name) {
+        const ref = `e${++counter}`;
+        refs[ref] = selectorsFor(el, role, name);
+        const label = name ? ` "${name.replace(/"/g, '\\"')}"` : '';
+        const states = statesOf(el, role)
+          .map((state) => ` [${state}]`)
+          .join('');
+        lines.push(`${'  '.repeat(depth)}- ${role}${label}${states} [ref=${ref}]`);
+        childDepth = depth + 1;
+      }
+    }
+
+    // Text entries already carry their own text; their element children still need walking
+    for (const child of Array.from(el.children)) walk(child, childDepth);
+  };
+
+  if (root) {
+    for (const child of Array.from(root.children)) walk(child, 0);
+  } else {
+    walk(start, 0);
+  }
+
+  return { text: lines.join('\n'), refs };
+}
+
+/**
+ * Fit a snapshot into maxChars. With a description, the entries that best match it are kept,
+ * wherever they are on the page, along with the entries they are nested in and, when small, the
+ * entries nested in them. Otherwise, or when nothing matches, the snapshot is cut at a line
+ * boundary so every remaining entry is complete.
+ */
+export function truncateSnapshot(text: string, maxChars = 10000, description?: string): string {
+  if (text.length <= maxChars) return text;
+  const relevant = description ? selectRelevantEntries(text, description, maxChars) : undefined;
+  if (relevant) return relevant;
+
+  const cut = text.lastIndexOf('\n', maxChars);
+  const kept = cut > 0 ? text.slice(0, cut) : text.slice(0, maxChars);
+  const dropped = text.slice(kept.length).split('\n').filter(Boolean).length;
+  return `${kept}\n${omittedNote(dropped)}`;
+}
+
+interface SnapshotEntry {
+  depth: number;
+  role: string;
+  name: string;
+}
+
+// Roles of elements tests act on, preferred over containers and text that match as well
+const INTERACTIVE_ROLES = [
+  'button',
+  'link',
+  'textbox',
+  'searchbox',
+  'checkbox',
+  'radio',
+  'combobox',
+  'option',
+  'tab',
+  'menuitem',
+  'switch',
+  'slider',
+  'spinbutton'
+];
+
+function selectRelevantEntries(
+  text: string,
+  description: string,
+  maxChars: number
+): string | undefined {
+  const tokens = descriptionTokens(description);
+  const phrase = description.match(/"([^"]+)"/)?.[1]?.toLowerCase();
+  if (!tokens.length && !phrase) return undefined;
+
+  const lines = text.split('\n');
+  const entries = lines.map(parseEntry);
+  const scored = entries
+    .map((entry, index) => ({
+      index,
+      score: scoreEntry(entry, tokens, phrase, description.toLowerCase())
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+  if (!scored.length) return undefined;
+
+  // Leave room for the note on how many entries were left out
+  const budget = maxChars - omittedNote(lines.length).length - 1;
+  const kept = new Set<number>();
+  const cost = (indices: number[]) =>
+    indices.filter((i) => !kept.has(i)).reduce((sum, i) => sum + lines[i].length + 1, 0);
+  let used = 0;
+  for (const { index } of scored) {
+    const path = [...ancestorsOf(entries, index), index];
+    const subtree = [...path, ...descendantsOf(entries, index)];
+    const chosen = cost(subtree) <= budget / 4 ? subtree : path;
+    const added = cost(chosen);
+    if (used + added > budget) continue;
+    chosen.forEach((i) => kept.add(i));
+    used += added;
+  }
+  if (!kept.size) return undefined;
+
+  const indices = Array.from(kept).sort((a, b) => a - b);
+  return [...indices.map((i) => lines[i]), omittedNote(lines.length - indices.length)].join('\n');
+}
+
+function parseEntry(line: string): SnapshotEntry {
+  const match = line.match(/^( *)- (\S+)(?: "((?:[^"\\]|\\.)*)")?/);
+  return {
+    depth: (match?.[1].length ?? 0) / 2,
+    role: match?.[2] ?? '',
+    name: (match?.[3] ?? '').replace(/\\"/g, '"').toLowerCase()
+  };
+}
+
+function scoreEntry(
+  entry: SnapshotEntry,
+  tokens: string[],
+  phrase: string | undefined,
+  description: string
+): number {
+  const words = new Set(entry.name.split(/[^\p{L}\p{N}]+/u));
+  let score = 0;
+  for (const token of tokens) {
+    if (words.has(token)) score += 2;
+  }
+  if (phrase && entry.name.includes(phrase)) score += 5;
+  if (score === 0) return 0;
+
+  if (INTERACTIVE_ROLES.includes(entry.role)) score += 2;
+  if (description.includes(entry.role)) score += 2;
+  return score;
+}
+
+function ancestorsOf(entries: SnapshotEntry[], index: number): number[] {
+  const ancestors: number[] = [];
+  let depth = entries[index].depth;
+  for (let i = index - 1; i >= 0 && depth > 0; i--) {
+    if (entries[i].depth < depth) {
+      ancestors.unshift(i);
+      depth = entries[i].depth;
+    }
+  }
+  return ancestors;
+}
+
+function descendantsOf(entries: SnapshotEntry[], index: number): number[] {
+  const descendants: number[] = [];
+  for (let i = index + 1; i < entries.length && entries[i].depth > entries[index].depth; i++) {
+    descendants.push(i);
+  }
+  return descendants;
+}
+
+function omittedNote(count: number): string {
+  return `- ... ${count} more entries not shown`;
+}
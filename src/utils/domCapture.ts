@@ -0,0 +1,98 @@
+/**
+ * In-browser DOM capture for content that getPageSource() and outerHTML leave out:
+ * open shadow roots and the documents of same-origin frames.
+ */
+
+/** Tag wrapped around the document of a same-origin frame, placed right after its <iframe> */
+export const FRAME_MARKER = 'wdio-frame';
+
+export interface CaptureMarkers {
+  /** Inline open shadow roots wrapped in this tag */
+  shadowRoot?: string;
+  /** Inline same-origin frame documents wrapped in this tag, with a path="0.1" attribute */
+  frame?: string;
+}
+
+/**
+ * Serialise the document like outerHTML, optionally inlining each open shadow root as the first
+ * child of its host and each same-origin frame's document right after its frame element.
+ * Frame paths are the frame's index among the iframe/frame elements of its document, joined
+ * with '.' for nested frames. Cross-origin frames are left out.
+ * Runs in the browser via browser.execute, so it must stay self-contained.
+ */
+export function serializePageDom(markers: CaptureMarkers): string {
+  const skipped = ['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'];
+
+  const escapeText = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+  const serializeChildren = (parent: Node, framePath: string): string => {
+    let html = '';
+    for (let i = 0; i < parent.childNodes.length; i++) {
+      html += serializeNode(parent.childNodes[i], framePath);
+    }
+    return html;
+  };
+
+  const serializeFrame = (frame: Element, framePath: string): string => {
+    const index = Array.prototype.indexOf.call(
+      frame.ownerDocument.querySelectorAll('iframe, frame'),
+      frame
+    );
+    if (index < 0) return '';
+
+    let frameDocument: Document | null = null;
+    try {
+      frameDocument = (frame as HTMLIFrameElement).contentDocument;
+    } catch (_error) {
+      // Cross-origin frame
+    }
+    if (!frameDocument || !frameDocument.documentElement) return '';
+
+    const path = framePath ? `${framePath}.${index}` : `${index}`;
+    return `<${markers.frame} path="${path}">${serializeNode(frameDocument.documentElement, path)}</${markers.frame}>`;
+  };
+
+  const serializeNode = (node: Node, framePath: string): string => {
+    if (node.nodeType === Node.TEXT_NODE) return escapeText(node.textContent || '');
+    if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+    const element = node as Element;
+    if (skipped.includes(element.tagName)) return '';
+
+    const shallow = (element.cloneNode(false) as Element).outerHTML;
+    const closingTag = `</${element.tagName.toLowerCase()}>`;
+    const hasClosingTag = shallow.endsWith(closingTag);
+    const openingTag = hasClosingTag ? shallow.slice(0, -closingTag.length) : shallow;
+
+    const shadow =
+      markers.shadowRoot && element.shadowRoot
+        ? `<${markers.shadowRoot}>${serializeChildren(element.shadowRoot, framePath)}</${markers.shadowRoot}>`
+        : '';
+    const frame =
+      markers.frame && (element.tagName === 'IFRAME' || element.tagName === 'FRAME')
+        ? serializeFrame(element, framePath)
+        : '';
+    return (
+      openingTag +
+      shadow +
+      serializeChildren(element, framePath) +
+      (hasClosingTag ? closingTag : '') +
+      frame
+    );
+  };
+
+  return serializeNode(document.documentElement, '');
+}
+
+export function hasFrames(dom: string): boolean {
+  return dom.includes(`<${FRAME_MARKER} `);
+}
+
+/**
+ * '0.1' -> [0, 1]; an empty or malformed path means the top-level document
+ */
+export function parseFramePath(path?: string): number[] | undefined {
+  if (!path || !/^\d+(\.\d+)*$/.test(path.trim())) return undefined;
+  return path.trim().split('.').map(Number);
+}
@@ -0,0 +1,262 @@
+/**
+ * Relevance-ranked DOM chunking: when the minimised DOM is over budget, keep the subtrees that
+ * best match the element description (with their ancestor path) instead of the first N characters.
+ */
+
+interface DomNode {
+  tag: string;
+  /** Opening tag as it appeared, attributes included */
+  open: string;
+  /** Self-closing or void element, serialised as its opening tag only */
+  empty: boolean;
+  children: DomChild[];
+  parent?: DomNode;
+  text: string;
+  size: number;
+}
+
+type DomChild = DomNode | string;
+
+const VOID_TAGS = ['input', 'img', 'br', 'hr', 'meta', 'link', 'source', 'area', 'col', 'wbr'];
+const INTERACTIVE_TAGS = ['a', 'button', 'input', 'select', 'textarea', 'option', 'summary'];
+const INTERACTIVE_ROLES =
+  /role="(button|link|checkbox|radio|tab|menuitem|option|switch|textbox|combobox)"/;
+// Words describing the kind of element, matched against tags and roles rather than text
+const ROLE_WORDS: Record<string, string[]> = {
+  button: ['button', 'btn'],
+  a: ['link'],
+  input: ['input', 'field', 'textbox', 'checkbox', 'radio'],
+  select: ['dropdown', 'select', 'combobox'],
+  textarea: ['textarea', 'field'],
+  img: ['image', 'icon', 'logo']
+};
+const STOP_WORDS = new Set([
+  'the',
+  'a',
+  'an',
+  'and',
+  'or',
+  'of',
+  'in',
+  'on',
+  'at',
+  'to',
+  'for',
+  'with',
+  'by',
+  'from',
+  'find',
+  'get',
+  'click',
+  'element',
+  'that',
+  'this',
+  'is',
+  'it',
+  'its',
+  'text'
+]);
+
+/**
+ * Keep the parts of a minimised DOM most relevant to the description, within maxChars.
+ * Returns undefined when nothing in the DOM relates to the description, so the caller can fall
+ * back to plain truncation.
+ */
+export function selectRelevantDom(
+  dom: string,
+  description: string,
+  maxChars: number
+): string | undefined {
+  if (dom.length <= maxChars) return dom;
+
+  const tokens = descriptionTokens(description);
+  const phrase = description.match(/"([^"]+)"/)?.[1]?.toLowerCase();
+  if (!tokens.length && !phrase) return undefined;
+
+  const root = parseDom(dom);
+  const scored: { node: DomNode; score: number; order: number }[] = [];
+  walk(root, (node, order) => {
+    const score = scoreNode(node, tokens, phrase, description.toLowerCase());
+    if (score > 0) scored.push({ node, score, order });
+  });
+  if (!scored.length) return undefined;
+
+  scored.sort((a, b) => b.score - a.score || a.order - b.order);
+
+  const selected = new Set<DomNode>();
+  const opened = new Set<DomNode>();
+  let used = 0;
+  for (const { node } of scored) {
+    const chunk = chunkRoot(node, maxChars);
+    if (!chunk || hasSelectedAncestor(chunk, selected)) continue;
+
+    // Chunks already inside this one are replaced by it
+    const nested = Array.from(selected).filter((other) => isAncestor(chunk, other));
+    const ancestors = ancestorsOf(chunk).filter((ancestor) => !opened.has(ancestor));
+    const cost =
+      chunk.size -
+      nested.reduce((sum, other) => sum + other.size, 0) +
+      ancestors.reduce((sum, ancestor) => sum + wrapperSize(ancestor), 0);
+    if (used + cost > maxChars) continue;
+
+    nested.forEach((other) => selected.delete(other));
+    selected.add(chunk);
+    ancestors.forEach((ancestor) => opened.add(ancestor));
+    used += cost;
+  }
+  if (!selected.size) return undefined;
+
+  return root.children.map((child) => render(child, selected, opened)).join('');
+}
+
+/**
+ * Words of the description worth matching against the page, without stop words and template
+ * placeholders
+ */
+export function descriptionTokens(description: string): string[] {
+  const words = description
+    .toLowerCase()
+    .replace(/\{[^}]*\}/g, ' ')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word));
+  return Array.from(new Set(words));
+}
+
+function scoreNode(
+  node: DomNode,
+  tokens: string[],
+  phrase: string | undefined,
+  description: string
+): number {
+  const text = node.text.toLowerCase();
+  const attributes = attributeValues(node.open).toLowerCase();
+  const textWords = new Set(text.split(/[^\p{L}\p{N}]+/u));
+  const attributeWords = new Set(attributes.split(/[^\p{L}\p{N}]+/u));
+
+  let score = 0;
+  for (const token of tokens) {
+    if (textWords.has(token)) score += 2;
+    if (attributeWords.has(token)) score += 3;
+  }
+  if (phrase && (text.includes(phrase) || attributes.includes(phrase))) score += 5;
+  if (score === 0) return 0;
+
+  const interactive = INTERACTIVE_TAGS.includes(node.tag) || INTERACTIVE_ROLES.test(node.open);
+  if (interactive) score += 2;
+  if (ROLE_WORDS[node.tag]?.some((word) => description.includes(word))) score += 2;
+  return score;
+}
+
+/**
+ * The subtree sent for a match: its parent, so labels and neighbours come along, unless that is
+ * too large a share of the budget; nothing when even the node itself does not fit
+ */
+function chunkRoot(node: DomNode, maxChars: number): DomNode | undefined {
+  if (node.parent?.parent && node.parent.size <= maxChars / 3) return node.parent;
+  return node.size <= maxChars / 2 ? node : undefined;
+}
+
+function parseDom(dom: string): DomNode {
+  const root: DomNode = { tag: '', open: '', empty: false, children: [], text: '', size: 0 };
+  let current = root;
+
+  for (const match of dom.matchAll(
+    /<(\/?)([a-zA-Z][\w.:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>|[^<]+|</g
+  )) {
+    const [token, closing, rawTag, rest] = match;
+    if (!rawTag) {
+      current.children.push(token);
+      current.text += token;
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (closing) {
+      // Close up to the matching element; stray closing tags are ignored
+      let node: DomNode | undefined = current;
+      while (node && node !== root && node.tag !== tag) node = node.parent;
+      if (node && node !== root) current = node.parent!;
+      continue;
+    }
+
+    const node: DomNode = {
+      tag,
+      open: token,
+      empty: /\/\s*$/.test(rest) || VOID_TAGS.includes(tag),
+      children: [],
+      parent: current,
+      text: '',
+      size: 0
+    };
+    current.children.push(node);
+    if (!node.empty) current = node;
+  }
+
+  computeSize(root);
+  return root;
+}
+
+function computeSize(node: DomNode): number {
+  node.size = node.empty
+    ? node.open.length
+    : wrapperSize(node) +
+      node.children.reduce(
+        (sum, child) => sum + (typeof child === 'string' ? child.length : computeSize(child)),
+        0
+      );
+  return node.size;
+}
+
+function wrapperSize(node: DomNode): number {
+  return node.open.length + (node.empty ? 0 : node.tag.length + 3);
+}
+
+function walk(node: DomNode, visit: (node: DomNode, order: number) => void) {
+  let order = 0;
+  const visitAll = (parent: DomNode) => {
+    for (const child of parent.children) {
+      if (typeof child === 'string') continue;
+      visit(child, order++);
+      visitAll(child);
+    }
+  };
+  visitAll(node);
+}
+
+function render(child: DomChild, selected: Set<DomNode>, opened: Set<DomNode>): string {
+  if (typeof child === 'string') return '';
+  if (selected.has(child)) return serialize(child);
+  if (!opened.has(child)) return '';
+  return `${child.open}${child.children.map((c) => render(c, selected, opened)).join('')}</${child.tag}>`;
+}
+
+function serialize(node: DomNode): string {
+  if (node.empty) return node.open;
+  const inner = node.children
+    .map((child) => (typeof child === 'string' ? child : serialize(child)))
+    .join('');
+  return `${node.open}${inner}</${node.tag}>`;
+}
+
+function ancestorsOf(node: DomNode): DomNode[] {
+  const ancestors: DomNode[] = [];
+  for (let parent = node.parent; parent?.parent; parent = parent.parent) ancestors.push(parent);
+  return ancestors;
+}
+
+function isAncestor(ancestor: DomNode, node: DomNode): boolean {
+  for (let parent = node.parent; parent; parent = parent.parent) {
+    if (parent === ancestor) return true;
+  }
+  return false;
+}
+
+function hasSelectedAncestor(node: DomNode, selected: Set<DomNode>): boolean {
+  return selected.has(node) || Array.from(selected).some((other) => isAncestor(other, node));
+}
+
+function attributeValues(openTag: string): string {
+  return Array.from(openTag.matchAll(/=\s*(?:"([^"]*)"|'([^']*)')/g))
+    .map((match) => match[1] ?? match[2])
+    .join(' ');
+}
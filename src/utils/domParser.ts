@@ -1,87 +1,147 @@
 import sanitizeHtml from 'sanitize-html';
+import { SHADOW_ROOT_MARKER } from './shadowDom';
+import { FRAME_MARKER } from './domCapture';
+import { selectRelevantDom } from './domChunker';
+
+/**
+ * Controls what extractMinimalDom keeps. Tag and attribute lists extend the defaults unless
+ * replaceDefaults is set. Patterns are RegExps or strings where * matches any run of characters.
+ */
+export interface DomProfile {
+  /** Extra tags to keep, e.g. ['svg'] */
+  allowedTags?: string[];
+  /** Extra attributes to keep on every tag, e.g. ['data-automation', 'ng-reflect-*'] */
+  allowedAttributes?: string[];
+  /** Use allowedTags and allowedAttributes in place of the defaults instead of adding to them */
+  replaceDefaults?: boolean;
+  /** Custom elements to keep, e.g. ['mat-*', 'ion-*', /^my-/]; others are unwrapped */
+  customElements?: (string | RegExp)[];
+  /** Attributes removed even when allowed, e.g. ['data-reactid', 'data-v-*'] */
+  dropAttributes?: (string | RegExp)[];
+  /** Class names removed from class attributes, e.g. [/^ng-/] */
+  stripClasses?: (string | RegExp)[];
+  /** Remove class names generated by common CSS-in-JS tools (see FRAMEWORK_HASH_CLASSES) */
+  stripFrameworkHashes?: boolean;
+}
+
+// Tags useful for locators
+const DEFAULT_ALLOWED_TAGS = [
+  'div',
+  'span',
+  'p',
+  'a',
+  'button',
+  'input',
+  'textarea',
+  'select',
+  'option',
+  'form',
+  'label',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'ul',
+  'ol',
+  'li',
+  'table',
+  'thead',
+  'tbody',
+  'tr',
+  'td',
+  'th',
+  'nav',
+  'header',
+  'footer',
+  'main',
+  'section',
+  'article',
+  'aside',
+  'img',
+  'video',
+  'audio',
+  'iframe',
+  'canvas',
+  'details',
+  'summary',
+  'dialog',
+  'menu',
+  'menuitem'
+];
+
+// Attributes useful for locators
+const DEFAULT_ALLOWED_ATTRIBUTES = [
+  'id',
+  'class',
+  'name',
+  'type',
+  'role',
+  'aria-*',
+  'data-*',
+  'for',
+  'placeholder',
+  'value',
+  'alt',
+  'title',
+  'href',
+  'src',
+  'action',
+  'method',
+  'disabled',
+  'readonly',
+  'checked',
+  'selected',
+  'required'
+];
+
+// Generated class names: emotion (css-1x2y3z), styled-components (sc-bdVaJa), styled-jsx
+// (jsx-123456), Svelte (svelte-xyz123) and JSS (jss12, makeStyles-root-12)
+export const FRAMEWORK_HASH_CLASSES: RegExp[] = [
+  /^css-[a-z0-9]+$/i,
+  /^sc-[a-z0-9]+$/i,
+  /^jsx-\d+$/,
+  /^svelte-[a-z0-9]+$/i,
+  /^jss\d+$/,
+  /^makeStyles-[\w-]+-\d+$/
+];
 
 /**
  * Sanitize and minimize HTML for AI processing using sanitize-html package
  * Removes: scripts, styles, comments, unnecessary attributes, extra whitespace
  * Keeps: semantic structure, text content, IDs, classes, data attributes, ARIA
+ * A DomProfile adjusts which tags, attributes and classes are kept.
+ * When the result is over maxChars and a description is given, the subtrees most relevant to it
+ * are kept (see domChunker.ts); otherwise the DOM is cut at a tag boundary.
  */
-export function extractMinimalDom(serializedDom: string, maxChars = 10000) {
+export function extractMinimalDom(
+  serializedDom: string,
+  maxChars = 10000,
+  description?: string,
+  profile: DomProfile = {}
+) {
   if (!serializedDom) return '';
 
+  const defaults = !profile.replaceDefaults;
+
   // Use sanitize-html to clean the DOM
   let cleaned = sanitizeHtml(serializedDom, {
     // Allow most HTML tags that are useful for locators
     allowedTags: [
-      'div',
-      'span',
-      'p',
-      'a',
-      'button',
-      'input',
-      'textarea',
-      'select',
-      'option',
-      'form',
-      'label',
-      'h1',
-      'h2',
-      'h3',
-      'h4',
-      'h5',
-      'h6',
-      'ul',
-      'ol',
-      'li',
-      'table',
-      'thead',
-      'tbody',
-      'tr',
-      'td',
-      'th',
-      'nav',
-      'header',
-      'footer',
-      'main',
-      'section',
-      'article',
-      'aside',
-      'img',
-      'video',
-      'audio',
-      'iframe',
-      'canvas',
-      'details',
-      'summary',
-      'dialog',
-      'menu',
-      'menuitem'
+      ...(defaults ? DEFAULT_ALLOWED_TAGS : []),
+      ...(profile.allowedTags ?? []),
+      ...customElementsIn(serializedDom, profile.customElements ?? []),
+      SHADOW_ROOT_MARKER,
+      FRAME_MARKER
     ],
     // Keep only attributes useful for locators
     allowedAttributes: {
-      '*': [
-        'id',
-        'class',
-        'name',
-        'type',
-        'role',
-        'aria-*',
-        'data-*',
-        'for',
-        'placeholder',
-        'value',
-        'alt',
-        'title',
-        'href',
-        'src',
-        'action',
-        'method',
-        'disabled',
-        'readonly',
-        'checked',
-        'selected',
-        'required'
-      ]
+      '*': [...(defaults ? DEFAULT_ALLOWED_ATTRIBUTES : []), ...(profile.allowedAttributes ?? [])],
+      [FRAME_MARKER]: ['path']
     },
+    // Drop noisy attributes and generated class names before the allowlists apply
+    transformTags: { '*': filterAttributes(profile) },
     // Remove all disallowed tags completely (including content)
     disallowedTagsMode: 'discard',
     // Remove scripts and styles
@@ -119,24 +179,118 @@ export function extractMinimalDom(serializedDom: string, maxChars = 10000) {
   // Remove leading/trailing whitespace
   cleaned = cleaned.trim();
 
-  // If still too large, truncate intelligently at tag boundaries
-  if (cleaned.length > maxChars) {
-    const truncated = cleaned.slice(0, maxChars);
-    const lastClosingTag = truncated.lastIndexOf('</');
-
-    if (lastClosingTag > maxChars * 0.8) {
-      // Close enough to the end, truncate at closing tag
-      const closingTagEnd = truncated.indexOf('>', lastClosingTag);
-      if (closingTagEnd !== -1) {
-        cleaned = truncated.slice(0, closingTagEnd + 1);
-      } else {
-        cleaned = truncated;
+  // If still too large, keep the relevant parts or truncate intelligently at tag boundaries
+  return fitToBudget(cleaned, maxChars, description);
+}
+
+function matchesPattern(value: string, pattern: string | RegExp): boolean {
+  if (pattern instanceof RegExp) return pattern.test(value);
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i').test(value);
+}
+
+// Custom element names (they always contain a hyphen) in the DOM that the profile keeps
+function customElementsIn(dom: string, patterns: (string | RegExp)[]): string[] {
+  if (!patterns.length) return [];
+  const names = new Set(
+    Array.from(dom.matchAll(/<([a-z][\w.]*-[\w.-]*)/gi), (match) => match[1].toLowerCase())
+  );
+  return Array.from(names).filter((name) =>
+    patterns.some((pattern) => matchesPattern(name, pattern))
+  );
+}
+
+function filterAttributes(profile: DomProfile): sanitizeHtml.Transformer {
+  const dropAttributes = profile.dropAttributes ?? [];
+  const stripClasses = [
+    ...(profile.stripClasses ?? []),
+    ...(profile.stripFrameworkHashes ? FRAMEWORK_HASH_CLASSES : [])
+  ];
+
+  return (tagName, attribs) => {
+    const kept: sanitizeHtml.Attributes = {};
+    for (const [name, value] of Object.entries(attribs)) {
+      if (dropAttributes.some((pattern) => matchesPattern(name, pattern))) continue;
+      if (name === 'class' && stripClasses.length) {
+        const classes = value
+          .split(/\s+/)
+          .filter((cls) => cls && !stripClasses.some((pattern) => matchesPattern(cls, pattern)));
+        if (classes.length) kept[name] = classes.join(' ');
+        continue;
       }
-    } else {
-      // Just truncate at maxChars
-      cleaned = truncated;
+      kept[name] = value;
     }
+    return { tagName, attribs: kept };
+  };
+}
+
+// Attributes Appium exposes that identify a native element
+const NATIVE_ATTRIBUTES = [
+  'resource-id',
+  'content-desc',
+  'text',
+  'accessibility-id',
+  'name',
+  'label'
+];
+
+/**
+ * Minimize an Appium page source (Android or iOS view hierarchy XML) for AI processing.
+ * HTML sanitising would discard every android.widget.* / XCUIElementType* node, so the XML
+ * is reduced directly: element names and nesting are kept, and only the identifying attributes
+ * with a non-empty value survive (bounds, indexes and state flags are dropped).
+ */
+export function extractMinimalNativeDom(
+  pageSource: string,
+  maxChars = 10000,
+  description?: string
+) {
+  if (!pageSource) return '';
+
+  let cleaned = pageSource
+    // XML declaration and comments
+    .replace(/<\?xml[\s\S]*?\?>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    // Rebuild each opening tag with the identifying attributes only
+    .replace(
+      /<([\w.:-]+)((?:\s+[\w.:-]+\s*=\s*"[^"]*")*)\s*(\/?)>/g,
+      (_tag, name, attrs, selfClosing) => {
+        const kept: string[] = [];
+        for (const [, attr, value] of attrs.matchAll(/([\w.:-]+)\s*=\s*"([^"]*)"/g)) {
+          if (NATIVE_ATTRIBUTES.includes(attr) && value.trim()) kept.push(`${attr}="${value}"`);
+        }
+        return `<${name}${kept.map((attr) => ` ${attr}`).join('')}${selfClosing ? '/' : ''}>`;
+      }
+    );
+
+  // Collapse whitespace and remove it between tags
+  cleaned = cleaned.replace(/\s+/g, ' ').replace(/>\s+</g, '><').trim();
+
+  return fitToBudget(cleaned, maxChars, description);
+}
+
+function fitToBudget(dom: string, maxChars: number, description?: string): string {
+  if (dom.length <= maxChars) return dom;
+  if (description) {
+    const relevant = selectRelevantDom(dom, description, maxChars);
+    if (relevant) return relevant;
   }
+  return truncateAtTagBoundary(dom, maxChars);
+}
+
+function truncateAtTagBoundary(dom: string, maxChars: number): string {
+  if (dom.length <= maxChars) return dom;
 
-  return cleaned;
+  const truncated = dom.slice(0, maxChars);
+  const lastClosingTag = truncated.lastIndexOf('</');
+
+  if (lastClosingTag > maxChars * 0.8) {
+    // Close enough to the end, truncate at closing tag
+    const closingTagEnd = truncated.indexOf('>', lastClosingTag);
+    if (closingTagEnd !== -1) {
+      return truncated.slice(0, closingTagEnd + 1);
+    }
+  }
+  // Just truncate at maxChars
+  return truncated;
 }
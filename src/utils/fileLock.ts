@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { setTimeout as sleep } from 'timers/promises';
+import { log } from './logger';
+
+/**
+ * Cross-process file helpers for the JSON caches that parallel WDIO workers share.
+ * A lock is a `<file>.lock` created exclusively, holding a token for its owner; writes go to a
+ * temp file renamed over the target, so readers never see a half-written file.
+ */
+
+const LOCK_RETRY_MS = 20;
+const LOCK_TIMEOUT_MS = 10000;
+// A lock older than this is left over from a crashed worker and may be broken
+const LOCK_STALE_MS = 5000;
+
+/**
+ * Run fn while holding the lock for filePath. Waits for other holders without blocking the event
+ * loop; rejects if the lock cannot be taken within the timeout.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => T | Promise<T>): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  fs.mkdirSync(path.dirname(lockPath), { recursive: true });
+
+  const token = `${process.pid}-${randomUUID()}`;
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      fs.writeFileSync(lockPath, token, { flag: 'wx' });
+      break;
+    } catch (err: any) {
+      if (err.code !== 'EEXIST') throw err;
+      if (isStale(lockPath)) {
+        log('Breaking stale lock', lockPath);
+        fs.rmSync(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() > deadline) throw new Error(`Timed out waiting for lock on ${filePath}`);
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    releaseLock(lockPath, token);
+  }
+}
+
+/**
+ * Replace filePath with content in one step: write a temp file beside it, then rename
+ */
+export function writeFileAtomic(filePath: string, content: string) {
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    fs.writeFileSync(tmpPath, content, 'utf-8');
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    fs.rmSync(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Parsed JSON content of filePath, or undefined when it is missing or unreadable
+ */
+export function readJsonFile<T>(filePath: string): T | undefined {
+  try {
+    if (!fs.existsSync(filePath)) return undefined;
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (err) {
+    log('Could not read', filePath, err);
+    return undefined;
+  }
+}
+
+// A holder that ran past the stale limit may have had its lock broken and taken by another
+// worker, so the lock is only removed while it still holds this holder's token
+function releaseLock(lockPath: string, token: string) {
+  let current: string | undefined;
+  try {
+    current = fs.readFileSync(lockPath, 'utf-8');
+  } catch (_err) {
+    // Already broken and released by another worker
+  }
+  if (current === token) {
+    fs.rmSync(lockPath, { force: true });
+  } else {
+    log('Lock was broken while held, leaving it to its new owner', lockPath);
+  }
+}
+
+function isStale(lockPath: string): boolean {
+  try {
+    return Date.now() - fs.statSync(lockPath).mtimeMs > LOCK_STALE_MS;
+  } catch (_err) {
+    // Released between the failed open and the check
+    return false;
+  }
+}
@@ -0,0 +1,15 @@
+import { createHash } from 'crypto';
+
+/**
+ * Short hash of a page's structure, stored with cache entries to spot layout changes.
+ * For HTML or a native view hierarchy it covers the sequence of tags; for an accessibility
+ * snapshot, the roles and states. Text, names and attribute values are left out, so content
+ * changes keep the same fingerprint.
+ */
+export function structureFingerprint(context: string): string {
+  const tags = context.match(/<\/?[a-zA-Z][\w.:-]*/g);
+  const structure = tags
+    ? tags.join('')
+    : context.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\[ref=\w+\]/g, '');
+  return createHash('sha256').update(structure).digest('hex').slice(0, 16);
+}
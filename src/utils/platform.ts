@@ -0,0 +1,55 @@
+/**
+ * Platform detection for Appium sessions. Native contexts expose an XML view hierarchy
+ * instead of HTML and need Appium selector strategies rather than CSS.
+ */
+
+export type Platform = 'web' | 'android' | 'ios';
+
+/**
+ * Platform of the browser's current context. Mobile browsers and webviews count as 'web'.
+ */
+export function detectPlatform(browser: WebdriverIO.Browser): Platform {
+  const session = browser as any;
+  const capabilities: Record<string, any> = session.capabilities ?? {};
+  const platformName = String(
+    capabilities.platformName ?? capabilities['appium:platformName'] ?? ''
+  ).toLowerCase();
+
+  // isNativeContext follows context switches; the capabilities only describe how the session started
+  const native =
+    typeof session.isNativeContext === 'boolean'
+      ? session.isNativeContext
+      : !capabilities.browserName && ['android', 'ios'].includes(platformName);
+  if (!native) return 'web';
+
+  if (session.isIOS === true || platformName === 'ios') return 'ios';
+  if (session.isAndroid === true || platformName === 'android') return 'android';
+  return 'web';
+}
+
+export function isNativePlatform(platform: Platform): boolean {
+  return platform !== 'web';
+}
+
+/**
+ * Identifies the current page in cache keys: the URL on the web, the app (and Android activity)
+ * in native contexts, where there is no URL
+ */
+export async function getPageKey(browser: WebdriverIO.Browser): Promise<string> {
+  const platform = detectPlatform(browser);
+  if (platform === 'web') {
+    return (await browser.getUrl().catch(() => '')) || 'unknown-url';
+  }
+
+  const capabilities: Record<string, any> = (browser as any).capabilities ?? {};
+  const app =
+    capabilities['appium:appPackage'] ??
+    capabilities['appium:bundleId'] ??
+    capabilities['appium:app'] ??
+    'app';
+  if (platform === 'android') {
+    const activity = await browser.getCurrentActivity().catch(() => '');
+    if (activity) return `android://${app}/${activity}`;
+  }
+  return `${platform}://${app}`;
+}
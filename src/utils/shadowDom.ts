@@ -0,0 +1,28 @@
+/**
+ * Shadow DOM support: the marker used for open shadow roots in the captured DOM
+ * (see domCapture.ts), and the WebdriverIO deep selector syntax used to reach elements inside them.
+ */
+
+/** Tag wrapped around the content of an open shadow root in the captured DOM */
+export const SHADOW_ROOT_MARKER = 'wdio-shadow-root';
+
+/** WebdriverIO deep selector prefix: '>>>button' pierces every shadow root on the page */
+export const DEEP_SELECTOR_PREFIX = '>>>';
+
+export function hasShadowRoots(dom: string): boolean {
+  return dom.includes(`<${SHADOW_ROOT_MARKER}`);
+}
+
+export function isDeepSelector(selector: string): boolean {
+  return selector.trim().startsWith(DEEP_SELECTOR_PREFIX);
+}
+
+/**
+ * Deep variant of a CSS selector ('button.save' -> '>>>button.save').
+ * XPath cannot cross shadow boundaries, so XPath and already-deep selectors are returned as-is.
+ */
+export function toDeepSelector(selector: string): string {
+  const trimmed = selector.trim();
+  if (!trimmed || isDeepSelector(trimmed) || /^(xpath=|\(?\.?\/)/.test(trimmed)) return selector;
+  return `${DEEP_SELECTOR_PREFIX}${trimmed}`;
+}
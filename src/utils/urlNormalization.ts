@@ -0,0 +1,74 @@
+/**
+ * Cache keys are scoped to a page. Normalising the URL first lets pages that differ only by
+ * query string or record id (/orders/1234?tab=items, /orders/5678) share cached selectors.
+ */
+
+export interface UrlNormalization {
+  /** Keep the query string in the cache scope (default: false) */
+  keepQuery?: boolean;
+  /** Keep the hash, which is the route in hash-routed apps (default: true) */
+  keepHash?: boolean;
+  /** Replace numeric and UUID path segments with :id (default: true) */
+  collapseIds?: boolean;
+  /**
+   * Route patterns such as '/orders/:id' or '/docs/*'. A path that matches is scoped by the
+   * pattern itself; ':name' matches one segment and a trailing '*' matches the rest.
+   */
+  routes?: string[];
+}
+
+/**
+ * Map a lookup to its cache scope in place of the normalised URL. The description is passed so
+ * elements shared across pages (a site header, say) can be given one scope.
+ */
+export type CacheKeyFn = (url: string, description: string) => string;
+
+const NUMERIC_SEGMENT = /^\d+$/;
+const UUID_SEGMENT = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Cache scope for a page URL. Values that are not URLs (e.g. 'unknown-url') are returned as-is.
+ * Pass false to use the raw URL.
+ */
+export function normalizeUrl(url: string, options: UrlNormalization | false = {}): string {
+  if (options === false) return url;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (_err) {
+    return url;
+  }
+
+  const segments = parsed.pathname.split('/').filter(Boolean);
+  const route = options.routes?.find((pattern) => matchesRoute(pattern, segments));
+  const pathname = route
+    ? normalizeRoute(route)
+    : options.collapseIds === false
+      ? parsed.pathname
+      : `/${segments.map((segment) => (isId(segment) ? ':id' : segment)).join('/')}`;
+
+  // Custom schemes (android://, ios://) have no origin, so rebuild from protocol and host
+  const origin = parsed.origin !== 'null' ? parsed.origin : `${parsed.protocol}//${parsed.host}`;
+  const query = options.keepQuery ? parsed.search : '';
+  const hash = options.keepHash === false ? '' : parsed.hash;
+  return `${origin}${pathname}${query}${hash}`;
+}
+
+function isId(segment: string): boolean {
+  return NUMERIC_SEGMENT.test(segment) || UUID_SEGMENT.test(segment);
+}
+
+function matchesRoute(pattern: string, segments: string[]): boolean {
+  const parts = pattern.split('/').filter(Boolean);
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i] === '*' && i === parts.length - 1) return segments.length >= i;
+    if (i >= segments.length) return false;
+    if (!parts[i].startsWith(':') && parts[i] !== segments[i]) return false;
+  }
+  return parts.length === segments.length;
+}
+
+function normalizeRoute(pattern: string): string {
+  return `/${pattern.split('/').filter(Boolean).join('/')}`;
+}
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { log } from './logger';
+import { withFileLock, writeFileAtomic } from './fileLock';
 
 /**
  * AI Locator Usage Tracker
@@ -17,6 +18,9 @@ import { log } from './logger';
  *
  * Enable tracking with: enableUsageTracking: true in service options
  *
+ * Parallel workers append to the same file: each update re-reads it under a file lock and
+ * replaces it atomically, so no worker's entries are lost.
+ *
  * Example usage file structure:
  * {
  *   "aiClient": "OpenAI",
@@ -135,35 +139,43 @@ export class UsageCache {
 
   private saveUsageData(data: UsageSummary): void {
     try {
-      fs.writeFileSync(this.cacheFilePath, JSON.stringify(data, null, 2), 'utf-8');
+      writeFileAtomic(this.cacheFilePath, JSON.stringify(data, null, 2));
       log('Usage cache updated:', this.cacheFilePath);
     } catch (error) {
       log('Error saving usage cache:', error);
     }
   }
 
-  addUsage(entry: UsageEntry): void {
+  async addUsage(entry: UsageEntry): Promise<void> {
     if (!this.enabled) {
       log('Usage tracking is disabled, skipping entry');
       return;
     }
 
-    const data = this.loadUsageData();
-
-    data.entries.push(entry);
-    data.totalCalls++;
-    data.totalTokens += entry.totalTokens;
-    data.totalPromptTokens += entry.promptTokens;
-    data.totalCompletionTokens += entry.completionTokens;
-
-    if (entry.success) {
-      data.successfulCalls++;
-    } else {
-      data.failedCalls++;
+    try {
+      // Read, update and write under the lock so concurrent workers do not overwrite each other
+      await withFileLock(this.cacheFilePath, () => {
+        const data = this.loadUsageData();
+
+        data.entries.push(entry);
+        data.totalCalls++;
+        data.totalTokens += entry.totalTokens;
+        data.totalPromptTokens += entry.promptTokens;
+        data.totalCompletionTokens += entry.completionTokens;
+
+        if (entry.success) {
+          data.successfulCalls++;
+        } else {
+          data.failedCalls++;
+        }
+
+        this.saveUsageData(data);
+      });
+    } catch (error) {
+      log('Error updating usage cache:', error);
+      return;
     }
 
-    this.saveUsageData(data);
-
     log('AI Usage logged:', {
       model: entry.model,
       tokens: entry.totalTokens,
@@ -226,3 +226,47 @@ export function selectBestXPath(candidates: string[]): string | null {
 
   return best.xpath;
 }
+
+/**
+ * Make an XPath relative to the context node ('//button' -> './/button') so it only searches
+ * inside a container element. Each branch of a union is rewritten. CSS selectors are returned
+ * unchanged, since element-scoped CSS lookups already search descendants only.
+ */
+export function toRelativeXPath(selector: string): string {
+  if (!selector) return selector;
+
+  const clean = selector.trim().replace(/^xpath=/, '');
+  if (!/^\(?\//.test(clean)) return selector;
+
+  return splitUnion(clean)
+    .map((branch) => branch.trim().replace(/^(\(*)\//, '$1./'))
+    .join(' | ');
+}
+
+/**
+ * Split an XPath on top-level '|', ignoring pipes inside quotes, predicates and parentheses
+ */
+function splitUnion(xpath: string): string[] {
+  const branches: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < xpath.length; i++) {
+    const char = xpath[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (char === '|' && depth === 0) {
+      branches.push(xpath.slice(start, i));
+      start = i + 1;
+    }
+  }
+  branches.push(xpath.slice(start));
+  return branches;
+}
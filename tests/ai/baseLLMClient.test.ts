@@ -0,0 +1,213 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { BaseLLMClient, LLMRequest, LLMTransportResult } from '../../src/ai/baseLLMClient';
+import { InvalidLLMResponseError, LOCATOR_RESPONSE_SCHEMA } from '../../src/ai/responseSchema';
+import { buildSystemPrompt } from '../../src/ai/prompts';
+
+class StubClient extends BaseLLMClient {
+  requests: LLMRequest[] = [];
+
+  constructor(private reply: () => LLMTransportResult) {
+    super('Stub', 'stub-model', 'http://localhost/stub');
+  }
+
+  protected async sendMessages(request: LLMRequest): Promise<LLMTransportResult> {
+    this.requests.push(request);
+    return this.reply();
+  }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('BaseLLMClient', () => {
+  it('builds the shared prompts and returns typed selectors', async () => {
+    const client = new StubClient(() => ({
+      content:
+        '```json\n{"best": "#login", "alternates": ["button[type=\'submit\']"], "selectorType": "css", "confidence": 0.9}\n```'
+    }));
+
+    const response = await client.generateLocator('<button id="login">Login</button>', 'login');
+
+    expect(response).toMatchObject({
+      best: '#login',
+      alternates: ["button[type='submit']"],
+      selectorType: 'css',
+      confidence: 0.9,
+      source: 'llm',
+      provider: 'Stub',
+      model: 'stub-model'
+    });
+    expect(response.selector).toBeUndefined();
+    expect(client.requests[0].systemPrompt).toContain('# CRITICAL OUTPUT FORMAT');
+    expect(client.requests[0].userPrompt).toContain('<button id="login">Login</button>');
+  });
+
+  it('adds template instructions only when a template is requested', async () => {
+    const client = new StubClient(() => ({
+      content: '{"best": "#x", "alternates": [], "selectorType": "css", "confidence": 0.5}'
+    }));
+
+    await client.generateLocator('<div></div>', 'row for {user}', 'u', false);
+    await client.generateLocator('<div></div>', 'row for {user}', 'u', true);
+
+    expect(client.requests[0].systemPrompt).not.toContain('# TEMPLATE LOCATORS');
+    expect(client.requests[1].systemPrompt).toContain('# TEMPLATE LOCATORS');
+  });
+
+  it('lists rejected selectors from earlier attempts in the user prompt', async () => {
+    const client = new StubClient(() => ({
+      content: '{"best": "#x", "alternates": [], "selectorType": "css", "confidence": 0.5}'
+    }));
+
+    await client.generateLocator('<div></div>', 'save', 'u', false);
+    await client.generateLocator('<div></div>', 'save', 'u', false, ['.save matched 3 elements']);
+
+    expect(client.requests[0].userPrompt).not.toContain('# PREVIOUS ATTEMPTS');
+    expect(client.requests[1].userPrompt).toContain('# PREVIOUS ATTEMPTS');
+    expect(client.requests[1].userPrompt).toContain('- .save matched 3 elements');
+  });
+
+  it('asks for container-relative selectors when the DOM is scoped', async () => {
+    const client = new StubClient(() => ({
+      content: '{"best": "#x", "alternates": [], "selectorType": "css", "confidence": 0.5}'
+    }));
+
+    await client.generateLocator('<div></div>', 'save', 'u', false, [], { scoped: true });
+
+    expect(client.requests[0].userPrompt).toContain('# SCOPE');
+    expect(client.requests[0].userPrompt).toContain("XPath selectors must start with './/'");
+  });
+
+  it('explains the shadow root marker only when the DOM contains one', async () => {
+    const client = new StubClient(() => ({
+      content: '{"best": "#x", "alternates": [], "selectorType": "css", "confidence": 0.5}'
+    }));
+
+    await client.generateLocator('<div></div>', 'save', 'u', false, [], {});
+    await client.generateLocator('<div></div>', 'save', 'u', false, [], { shadowDom: true });
+
+    expect(client.requests[0].userPrompt).not.toContain('# SHADOW DOM');
+    expect(client.requests[1].userPrompt).toContain("prefixed with '>>>'");
+  });
+
+  it('switches to Appium selectors for native view hierarchies', async () => {
+    const client = new StubClient(() => ({
+      content:
+        '{"best": "~login", "alternates": [], "selectorType": "accessibility id", "confidence": 0.9}'
+    }));
+
+    const response = await client.generateLocator(
+      '<android.widget.Button content-desc="login"/>',
+      'login button',
+      'android://app',
+      false,
+      [],
+      { platform: 'android' }
+    );
+
+    expect(response).toMatchObject({ best: '~login', selectorType: 'accessibility id' });
+    expect(client.requests[0].systemPrompt).toContain('android=new UiSelector()');
+    expect(client.requests[0].systemPrompt).toContain('CSS selectors do not work');
+    expect(client.requests[0].userPrompt).toContain('# ANDROID VIEW HIERARCHY');
+    expect(client.requests[0].responseSchema?.properties.selectorType.enum).toEqual([
+      'accessibility id',
+      'android uiautomator',
+      'xpath'
+    ]);
+  });
+
+  it.each(['android', 'ios'] as const)('gives valid JSON examples for %s', (platform) => {
+    const examples = [
+      ...buildSystemPrompt(false, { platform }).matchAll(/Response:\n(\{[\s\S]*?\n\})/g)
+    ];
+
+    expect(examples.length).toBeGreaterThan(0);
+    for (const [, example] of examples) expect(() => JSON.parse(example)).not.toThrow();
+  });
+
+  it('falls back to native selectors when the transport throws on iOS', async () => {
+    const client = new StubClient(() => {
+      throw new Error('network down');
+    });
+
+    const response = await client.generateLocator('<x/>', 'Log in', 'ios://app', false, [], {
+      platform: 'ios'
+    });
+
+    expect(response.best).toBe('~Log in');
+    expect(response.alternates).toContain('-ios predicate string:label CONTAINS "Log in"');
+  });
+
+  it('sends the accessibility snapshot instead of the DOM in a11y mode', async () => {
+    const client = new StubClient(() => ({
+      content: '{"ref": "e2", "confidence": 0.9, "rationale": "named Sign in"}'
+    }));
+
+    const response = await client.generateLocator('', 'sign in button', 'u', false, [], {
+      contextMode: 'a11y',
+      snapshot: '- button "Sign in" [ref=e2]'
+    });
+
+    expect(response).toMatchObject({ ref: 'e2', best: '' });
+    expect(client.requests[0].systemPrompt).toContain('answer with its ref id');
+    expect(client.requests[0].userPrompt).toContain('# ACCESSIBILITY SNAPSHOT');
+    expect(client.requests[0].userPrompt).not.toContain('# HTML DOM');
+  });
+
+  it('sends the snapshot and the DOM in hybrid mode', async () => {
+    const client = new StubClient(() => ({
+      content: '{"best": "#x", "alternates": [], "selectorType": "css", "confidence": 0.9}'
+    }));
+
+    await client.generateLocator('<button id="x"></button>', 'save', 'u', false, [], {
+      contextMode: 'hybrid',
+      snapshot: '- button "Save" [ref=e1]'
+    });
+
+    expect(client.requests[0].userPrompt).toContain('- button "Save" [ref=e1]');
+    expect(client.requests[0].userPrompt).toContain('# HTML DOM');
+    expect(client.requests[0].responseSchema?.required).toContain('ref');
+  });
+
+  it('passes the response schema to the transport unless structured output is off', async () => {
+    const client = new StubClient(() => ({
+      content: '{"best": "#x", "alternates": [], "selectorType": "css", "confidence": 0.5}'
+    }));
+
+    await client.generateLocator('<div></div>', 'x');
+    client.structuredOutput = false;
+    await client.generateLocator('<div></div>', 'x');
+
+    expect(client.requests[0].responseSchema).toEqual(LOCATOR_RESPONSE_SCHEMA);
+    expect(client.requests[1].responseSchema).toBeUndefined();
+  });
+
+  it('rejects prose instead of treating it as a selector', async () => {
+    const client = new StubClient(() => ({ content: 'The login button is #login' }));
+
+    await expect(client.generateLocator('<div></div>', 'login')).rejects.toBeInstanceOf(
+      InvalidLLMResponseError
+    );
+  });
+
+  it('returns fallback selectors when the transport throws', async () => {
+    const client = new StubClient(() => {
+      throw new Error('network down');
+    });
+
+    const response = await client.generateLocator('<div></div>', 'Save button');
+
+    expect(response.source).toBe('fallback');
+    expect([response.best, ...(response.alternates || [])]).toContain(
+      "//button[contains(normalize-space(.), 'Save button')]"
+    );
+    expect(response.usage).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AnthropicClient } from '../../../src/ai/providers/anthropic';
+import { HttpStub } from '../../helpers/httpStub';
+
+const usagePath = path.join(os.tmpdir(), 'anthropic-usage-tests.json');
+let stub: HttpStub;
+let baseUrl: string;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  stub = new HttpStub();
+  baseUrl = `${await stub.start()}/v1/messages`;
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  rmSync(usagePath, { force: true });
+  await stub.stop();
+});
+
+describe('AnthropicClient', () => {
+  it('sends a Messages API request with the system prompt as a separate field', async () => {
+    stub.reply = {
+      status: 200,
+      body: {
+        content: [
+          {
+            type: 'text',
+            text: '{"best": "#login", "alternates": ["//button"], "selectorType": "css", "confidence": 0.9}'
+          }
+        ],
+        usage: { input_tokens: 120, output_tokens: 15 }
+      }
+    };
+    const client = new AnthropicClient('sk-ant-test', 'claude-test', true, usagePath, baseUrl);
+
+    const response = await client.generateLocator('<button id="login"></button>', 'login button');
+
+    const { headers, body } = stub.lastRequest;
+    expect(headers['x-api-key']).toBe('sk-ant-test');
+    expect(headers['anthropic-version']).toBe('2023-06-01');
+    expect(headers.authorization).toBeUndefined();
+    expect(body.model).toBe('claude-test');
+    expect(body.system).toContain('# CRITICAL OUTPUT FORMAT');
+    expect(body.messages).toHaveLength(1);
+    expect(body.messages[0].role).toBe('user');
+    expect(response).toMatchObject({ best: '#login', alternates: ['//button'], source: 'llm' });
+    expect(response.usage).toEqual({ promptTokens: 120, completionTokens: 15, totalTokens: 135 });
+  });
+
+  it('falls back to heuristic selectors on an API error', async () => {
+    stub.reply = { status: 401, body: { type: 'error', error: { type: 'authentication_error' } } };
+    const client = new AnthropicClient('bad-key', undefined, false, undefined, baseUrl);
+
+    const response = await client.generateLocator('<div></div>', 'Save button');
+
+    expect(response.source).toBe('fallback');
+    expect(response.alternates).toContain("//button[contains(normalize-space(.), 'Save button')]");
+  });
+});
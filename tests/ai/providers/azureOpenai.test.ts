@@ -0,0 +1,64 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { AzureOpenAIClient } from '../../../src/ai/providers/azureOpenai';
+import { HttpStub } from '../../helpers/httpStub';
+
+const usagePath = path.join(os.tmpdir(), 'azure-usage-tests.json');
+let stub: HttpStub;
+let endpoint: string;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  stub = new HttpStub();
+  endpoint = await stub.start();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  rmSync(usagePath, { force: true });
+  await stub.stop();
+});
+
+describe('AzureOpenAIClient', () => {
+  it('posts to the deployment URL with api-version and the api-key header', async () => {
+    stub.reply = {
+      status: 200,
+      body: {
+        choices: [
+          {
+            message: {
+              content:
+                '{"best": "#search", "alternates": [], "selectorType": "css", "confidence": 1}'
+            }
+          }
+        ],
+        usage: { prompt_tokens: 90, completion_tokens: 10, total_tokens: 100 }
+      }
+    };
+    const client = new AzureOpenAIClient(
+      'azure-key',
+      `${endpoint}/`,
+      'gpt4o-mini-prod',
+      '2024-10-21',
+      true,
+      usagePath
+    );
+
+    const response = await client.generateLocator('<input id="search">', 'search box');
+
+    const { url, headers, body } = stub.lastRequest;
+    expect(url).toBe('/openai/deployments/gpt4o-mini-prod/chat/completions?api-version=2024-10-21');
+    expect(headers['api-key']).toBe('azure-key');
+    expect(headers.authorization).toBeUndefined();
+    expect(body.model).toBeUndefined();
+    expect(body.messages.map((m: any) => m.role)).toEqual(['system', 'user']);
+    expect(body.response_format.type).toBe('json_schema');
+    expect(body.response_format.json_schema.schema.required).toContain('confidence');
+    expect(response).toMatchObject({ best: '#search', alternates: [], confidence: 1 });
+    expect(response.usage).toEqual({ promptTokens: 90, completionTokens: 10, totalTokens: 100 });
+  });
+});
@@ -0,0 +1,60 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { GeminiClient } from '../../../src/ai/providers/gemini';
+import { HttpStub } from '../../helpers/httpStub';
+
+const usagePath = path.join(os.tmpdir(), 'gemini-usage-tests.json');
+let stub: HttpStub;
+let baseUrl: string;
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  stub = new HttpStub();
+  baseUrl = `${await stub.start()}/v1beta`;
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  rmSync(usagePath, { force: true });
+  await stub.stop();
+});
+
+describe('GeminiClient', () => {
+  it('maps the prompts onto systemInstruction and contents', async () => {
+    stub.reply = {
+      status: 200,
+      body: {
+        candidates: [
+          {
+            content: {
+              parts: [
+                { text: '{"best": "#cart",' },
+                { text: ' "alternates": [".cart"], "selectorType": "css", "confidence": 0.8}' }
+              ]
+            }
+          }
+        ],
+        usageMetadata: { promptTokenCount: 200, candidatesTokenCount: 12, totalTokenCount: 212 }
+      }
+    };
+    const client = new GeminiClient('g-key', 'gemini-test', true, usagePath, baseUrl);
+
+    const response = await client.generateLocator('<a id="cart">Cart</a>', 'cart link');
+
+    const { url, headers, body } = stub.lastRequest;
+    expect(url).toBe('/v1beta/models/gemini-test:generateContent');
+    expect(headers['x-goog-api-key']).toBe('g-key');
+    expect(body.systemInstruction.parts[0].text).toContain('# CRITICAL OUTPUT FORMAT');
+    expect(body.generationConfig.responseMimeType).toBe('application/json');
+    expect(body.generationConfig.responseSchema.additionalProperties).toBeUndefined();
+    expect(body.contents).toEqual([
+      { role: 'user', parts: [{ text: expect.stringContaining('cart link') }] }
+    ]);
+    expect(response).toMatchObject({ best: '#cart', alternates: ['.cart'] });
+    expect(response.usage).toEqual({ promptTokens: 200, completionTokens: 12, totalTokens: 212 });
+  });
+});
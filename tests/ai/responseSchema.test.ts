@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LOCATOR_RESPONSE_SCHEMA,
+  parseLocatorResponse,
+  responseSchemaFor,
+  InvalidLLMResponseError
+} from '../../src/ai/responseSchema';
+
+describe('parseLocatorResponse', () => {
+  it('accepts a reply that matches the schema, with or without code fences', () => {
+    const json =
+      '{"best": "#a", "alternates": ["//a"], "selectorType": "css", "confidence": 0.7, "rationale": "unique id"}';
+    const expected = {
+      best: '#a',
+      alternates: ['//a'],
+      selectorType: 'css',
+      confidence: 0.7,
+      rationale: 'unique id'
+    };
+
+    expect(parseLocatorResponse(json)).toEqual(expected);
+    expect(parseLocatorResponse('```json\n' + json + '\n```')).toEqual(expected);
+  });
+
+  it('rejects prose and bare selectors', () => {
+    expect(() => parseLocatorResponse('Sure! The selector is #a')).toThrow(InvalidLLMResponseError);
+    expect(() => parseLocatorResponse('"#a"')).toThrow('not a JSON object');
+  });
+
+  it('lists every schema violation and keeps the raw content', () => {
+    try {
+      parseLocatorResponse('{"best": "", "alternates": "x", "selectorType": "id"}');
+      expect.unreachable();
+    } catch (err: any) {
+      expect(err).toBeInstanceOf(InvalidLLMResponseError);
+      expect(err.retryable).toBe(true);
+      expect(err.message).toContain('"best"');
+      expect(err.message).toContain('"alternates"');
+      expect(err.message).toContain('"selectorType"');
+      expect(err.message).toContain('"confidence"');
+      expect(err.rawContent).toContain('"selectorType": "id"');
+    }
+  });
+
+  it('reads the frame path when present', () => {
+    const json =
+      '{"best": "#card", "alternates": [], "selectorType": "css", "confidence": 0.9, "rationale": "", "frame": "0.1"}';
+
+    expect(parseLocatorResponse(json).frame).toBe('0.1');
+    expect(parseLocatorResponse(json.replace('"0.1"', '""'))).not.toHaveProperty('frame');
+  });
+});
+
+describe('responseSchemaFor', () => {
+  it('requires a frame field only when frames are captured', () => {
+    expect(responseSchemaFor({})).toBe(LOCATOR_RESPONSE_SCHEMA);
+    expect(responseSchemaFor({ frames: true }).required).toContain('frame');
+  });
+
+  it('lets a snapshot ref stand in for the selectors', () => {
+    expect(
+      parseLocatorResponse('{"ref": "e4", "confidence": 0.9, "rationale": "named Save"}')
+    ).toEqual({ best: '', alternates: [], confidence: 0.9, rationale: 'named Save', ref: 'e4' });
+    expect(() => parseLocatorResponse('{"ref": "", "confidence": 0.9}')).toThrow('"best"');
+  });
+
+  it('asks for a ref only in a11y mode and next to the selectors in hybrid mode', () => {
+    expect(responseSchemaFor({ contextMode: 'a11y' }).required).toEqual([
+      'ref',
+      'confidence',
+      'rationale'
+    ]);
+    expect(responseSchemaFor({ contextMode: 'hybrid' }).required).toEqual([
+      ...LOCATOR_RESPONSE_SCHEMA.required,
+      'ref'
+    ]);
+  });
+});
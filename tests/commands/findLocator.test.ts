@@ -0,0 +1,411 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { registerAiLocator } from '../../src/commands/findLocator';
+import { createLocatorEngine } from '../../src/locator/locatorEngine';
+import { readFramePath } from '../../src/locator/frames';
+
+let tmpRoot: string;
+
+function createBrowser() {
+  const commands: Record<string, (...args: any[]) => any> = {};
+  const elementCommands: Record<string, (...args: any[]) => any> = {};
+  const overwrites: Record<string, (...args: any[]) => any> = {};
+  const findAll = async (selector: string) =>
+    selector === '#login'
+      ? [{ selector, isDisplayed: async () => true, isEnabled: async () => true }]
+      : [];
+  const browser: any = {
+    addCommand: vi.fn((name: string, fn: (...args: any[]) => any, attachToElement?: boolean) => {
+      if (attachToElement) elementCommands[name] = fn;
+      else commands[name] = fn.bind(browser);
+    }),
+    overwriteCommand: vi.fn((name: string, fn: (...args: any[]) => any) => {
+      overwrites[name] = fn;
+    }),
+    getUrl: vi.fn(async () => 'https://example.com/login'),
+    getPageSource: vi.fn(async () => '<html><body><button id="login">Go</button></body></html>'),
+    $: vi.fn((selector: string) => ({
+      getElement: async () => ({ selector, click: vi.fn(async () => 'clicked') })
+    })),
+    $$: vi.fn((selector: string) =>
+      Object.assign(findAll(selector), { getElements: () => findAll(selector) })
+    )
+  };
+  return { browser, commands, elementCommands, overwrites };
+}
+
+function createContainer(browser: any, selector: string, html: string) {
+  return {
+    selector,
+    elementId: selector,
+    parent: browser,
+    getHTML: vi.fn(async () => html),
+    $$: vi.fn(async (child: string) =>
+      child === '.apply' || child === './/button' ? [{ isDisplayed: async () => true }] : []
+    )
+  };
+}
+
+function register(browser: any, options: Record<string, any> = {}) {
+  const tmpDir = mkdtempSync(path.join(tmpRoot, 'find-locator-'));
+  const llmClient = {
+    generateLocator: vi.fn(async () => ({ best: '#login', alternates: [] }))
+  };
+  registerAiLocator(browser, {
+    llmClient,
+    cachePath: path.join(tmpDir, 'cache.json'),
+    ...options
+  });
+  return llmClient;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  tmpRoot = mkdtempSync(path.join(os.tmpdir(), 'find-locator-test-'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('aiElement / aiElements commands', () => {
+  it('registers the element commands next to aiLocator', () => {
+    const { browser, commands } = createBrowser();
+    register(browser);
+
+    expect(Object.keys(commands)).toEqual(
+      expect.arrayContaining(['aiLocator', 'aiElement', 'aiElements', 'ai$', 'ai$$'])
+    );
+  });
+
+  it('returns elements for the resolved selector', async () => {
+    const { browser, commands } = createBrowser();
+    register(browser);
+
+    expect(await commands.aiElement('login button')).toMatchObject({ selector: '#login' });
+    expect(await commands.aiElements('login button')).toHaveLength(1);
+    expect(browser.$).toHaveBeenCalledWith('#login');
+    expect(browser.$$).toHaveBeenCalledWith('#login');
+  });
+
+  it('shares the selector cache between aiLocator and aiElement only', async () => {
+    const { browser, commands } = createBrowser();
+    const llmClient = register(browser);
+
+    await commands.aiLocator('login button');
+    await commands.aiElement('login button');
+    expect(llmClient.generateLocator).toHaveBeenCalledOnce();
+
+    await commands.aiElements('login button');
+    await commands.aiElements('login button');
+    expect(llmClient.generateLocator).toHaveBeenCalledTimes(2);
+  });
+
+  it('accepts several matches for aiElements whatever the verification level', async () => {
+    const { browser, commands } = createBrowser();
+    const rows = [{ selector: '.row' }, { selector: '.row' }];
+    browser.$$ = vi.fn((selector: string) => {
+      const found = Promise.resolve(selector === '.row' ? rows : []);
+      return Object.assign(found, { getElements: () => found });
+    });
+    const llmClient = register(browser, { verification: 'unique' });
+    llmClient.generateLocator.mockResolvedValue({ best: '.row', alternates: [] });
+
+    expect(await commands.aiElements('rows', { verification: 'interactable' })).toHaveLength(2);
+    expect(llmClient.generateLocator).toHaveBeenCalledOnce();
+  });
+});
+
+describe('selector cache', () => {
+  it('reads the page only when the AI is asked', async () => {
+    const { browser, commands } = createBrowser();
+    register(browser);
+
+    await commands.aiLocator('login button');
+    await commands.aiLocator('login button');
+
+    expect(browser.getPageSource).toHaveBeenCalledOnce();
+  });
+
+  it('verifies cached selectors on every call and heals stale ones', async () => {
+    const { browser, commands } = createBrowser();
+    const llmClient = register(browser);
+    await commands.aiLocator('login button');
+
+    // The page changed: #login is gone and the AI finds the new button
+    browser.$$ = vi.fn(async (selector: string) => (selector === '#signin' ? [{}] : []));
+    llmClient.generateLocator.mockResolvedValueOnce({ best: '#signin', alternates: [] });
+
+    expect(await commands.aiLocator('login button')).toBe('#signin');
+    expect(await commands.aiLocator('login button')).toBe('#signin');
+    expect(llmClient.generateLocator).toHaveBeenCalledTimes(2);
+  });
+
+  it('resolves through a shared engine and writes to its cache', async () => {
+    const { browser, commands } = createBrowser();
+    const llmClient = {
+      generateLocator: vi.fn(async () => ({ best: '#login', alternates: [] }))
+    };
+    const engine = createLocatorEngine(llmClient, {
+      cachePath: path.join(mkdtempSync(path.join(tmpRoot, 'find-locator-')), 'cache.json')
+    });
+    registerAiLocator(browser, { engine });
+
+    await commands.aiLocator('login button');
+
+    expect(await engine.cache.get('https://example.com/login::login button')).toMatchObject({
+      best: '#login'
+    });
+  });
+
+  it('returns the engine it creates so its cache hits can be flushed', async () => {
+    const { browser, commands } = createBrowser();
+    const engine = registerAiLocator(browser, {
+      llmClient: { generateLocator: vi.fn(async () => ({ best: '#login', alternates: [] })) },
+      cachePath: path.join(mkdtempSync(path.join(tmpRoot, 'find-locator-')), 'cache.json')
+    });
+
+    await commands.aiLocator('login button');
+    await commands.aiLocator('login button');
+    await engine.cache.flush();
+
+    expect(await engine.cache.store.get('https://example.com/login::login button')).toMatchObject({
+      hitCount: 1
+    });
+  });
+});
+
+describe('element-scoped aiLocator', () => {
+  it('sends only the container HTML and verifies inside it', async () => {
+    const { browser, elementCommands } = createBrowser();
+    const llmClient = register(browser);
+    llmClient.generateLocator.mockResolvedValueOnce({ best: '.apply', alternates: [] });
+    const container = createContainer(browser, '#checkout', '<div id="checkout">...</div>');
+
+    const selector = await elementCommands.aiLocator.call(container, 'apply coupon');
+
+    expect(selector).toBe('.apply');
+    expect(llmClient.generateLocator).toHaveBeenCalledWith(
+      '<div id="checkout">...</div>',
+      'apply coupon',
+      'https://example.com/login',
+      false,
+      undefined,
+      { scoped: true, shadowDom: false, frames: false, platform: 'web' }
+    );
+    expect(container.$$).toHaveBeenCalledWith('.apply');
+    expect(browser.getPageSource).not.toHaveBeenCalled();
+  });
+
+  it('makes XPath results relative to the container', async () => {
+    const { browser, elementCommands } = createBrowser();
+    const llmClient = register(browser);
+    llmClient.generateLocator.mockResolvedValueOnce({ best: '//button', alternates: [] });
+    const container = createContainer(browser, '#checkout', '<div id="checkout"></div>');
+
+    expect(await elementCommands.aiLocator.call(container, 'apply coupon')).toBe('.//button');
+  });
+
+  it('caches the same description separately per container', async () => {
+    const { browser, elementCommands } = createBrowser();
+    const llmClient = register(browser);
+    llmClient.generateLocator.mockResolvedValue({ best: '.apply', alternates: [] });
+
+    await elementCommands.aiLocator.call(createContainer(browser, '#cart', ''), 'apply coupon');
+    await elementCommands.aiLocator.call(createContainer(browser, '#cart', ''), 'apply coupon');
+    await elementCommands.aiLocator.call(createContainer(browser, '#wishlist', ''), 'apply coupon');
+
+    expect(llmClient.generateLocator).toHaveBeenCalledTimes(2);
+  });
+
+  it('tells apart sibling containers found with the same selector', async () => {
+    const { browser, elementCommands } = createBrowser();
+    const llmClient = register(browser);
+    llmClient.generateLocator.mockResolvedValue({ best: '.apply', alternates: [] });
+    const card = (index: number) =>
+      Object.assign(createContainer(browser, '.card', ''), { index, elementId: `card-${index}` });
+
+    await elementCommands.aiLocator.call(card(0), 'apply coupon');
+    await elementCommands.aiLocator.call(card(0), 'apply coupon');
+    await elementCommands.aiLocator.call(card(1), 'apply coupon');
+
+    expect(llmClient.generateLocator).toHaveBeenCalledTimes(2);
+  });
+
+  it('verifies concurrent lookups in each of their own containers', async () => {
+    const { browser, elementCommands } = createBrowser();
+    const llmClient = register(browser);
+    llmClient.generateLocator.mockResolvedValue({ best: '.apply', alternates: [] });
+    const first = Object.assign(createContainer(browser, '#cart', ''), { elementId: 'a' });
+    const second = Object.assign(createContainer(browser, '#cart', ''), { elementId: 'b' });
+
+    await Promise.all([
+      elementCommands.aiLocator.call(first, 'apply coupon'),
+      elementCommands.aiLocator.call(second, 'apply coupon')
+    ]);
+
+    expect(first.$$).toHaveBeenCalledWith('.apply');
+    expect(second.$$).toHaveBeenCalledWith('.apply');
+  });
+});
+
+describe('healOnAction', () => {
+  const staleError = () =>
+    Object.assign(new Error('stale element reference: element is not attached'), {
+      name: 'stale element reference'
+    });
+
+  it('re-resolves and retries an action once when the element went stale', async () => {
+    const { browser, commands, overwrites } = createBrowser();
+    register(browser, { healOnAction: true });
+    const element = await commands.aiElement('login button');
+    const click = vi.fn().mockRejectedValue(staleError());
+
+    const result = await overwrites.click.call(element, click);
+
+    expect(result).toBe('clicked');
+    expect(click).toHaveBeenCalledOnce();
+    expect(console.warn).toHaveBeenCalledWith(
+      '[wdio-ai][WARN]',
+      expect.stringContaining('Healed "login button": #login → #login')
+    );
+  });
+
+  it('leaves the element commands alone unless healOnAction is enabled', async () => {
+    const { browser, commands } = createBrowser();
+    register(browser);
+    await commands.aiElement('login button');
+
+    expect(browser.overwriteCommand).not.toHaveBeenCalled();
+  });
+
+  it('does not heal elements fetched without healOnAction', async () => {
+    const { browser, commands, overwrites } = createBrowser();
+    register(browser);
+    await commands.aiElement('login button', { healOnAction: true });
+    const element = await commands.aiElement('login button');
+    const click = vi.fn().mockRejectedValue(staleError());
+
+    await expect(overwrites.click.call(element, click)).rejects.toThrow('stale element');
+  });
+
+  it('can be enabled per call', async () => {
+    const { browser, commands, overwrites } = createBrowser();
+    register(browser);
+    const element = await commands.aiElement('login button', { healOnAction: true });
+
+    expect(browser.overwriteCommand).toHaveBeenCalledTimes(5);
+
+    const result = await overwrites.click.call(element, vi.fn().mockRejectedValue(staleError()));
+
+    expect(result).toBe('clicked');
+  });
+
+  it('does not heal unrelated errors', async () => {
+    const { browser, commands, overwrites } = createBrowser();
+    register(browser, { healOnAction: true });
+    const element = await commands.aiElement('login button');
+    const click = vi.fn().mockRejectedValue(new Error('session deleted'));
+
+    await expect(overwrites.click.call(element, click)).rejects.toThrow('session deleted');
+  });
+
+  it('does not heal elements that were not found', async () => {
+    const { browser, commands, overwrites } = createBrowser();
+    register(browser, { healOnAction: true });
+    const element = await commands.aiElement('login button');
+    const click = vi.fn().mockRejectedValue(new Error('element ("#gone") still wasn\'t found'));
+
+    await expect(overwrites.click.call(element, click)).rejects.toThrow("wasn't found");
+  });
+});
+
+describe('frames', () => {
+  function createFramedBrowser() {
+    const created = createBrowser();
+    const frame = { elementId: 'pay-frame' };
+    const findAll = async (selector: string) =>
+      selector === 'iframe, frame'
+        ? [frame]
+        : selector === '#card' || selector === '#login'
+          ? [{ selector, isDisplayed: async () => true }]
+          : [];
+    created.browser.$$ = vi.fn((selector: string) =>
+      Object.assign(findAll(selector), { getElements: () => findAll(selector) })
+    );
+    // Tracks the frame the session is in, like readFramePath would
+    let framePath: number[] = [];
+    created.browser.execute = vi.fn(async (fn: unknown) =>
+      fn === readFramePath
+        ? framePath
+        : '<html><body><iframe></iframe><wdio-frame path="0"><input id="card" /></wdio-frame></body></html>'
+    );
+    created.browser.switchFrame = vi.fn(async (target: unknown) => {
+      framePath = target === frame ? [...framePath, 0] : [];
+    });
+    return { ...created, frame, framePath: () => framePath };
+  }
+
+  it('switches aiElement into the frame the AI reported', async () => {
+    const { browser, commands, frame } = createFramedBrowser();
+    const llmClient = register(browser, { frames: true });
+    llmClient.generateLocator.mockResolvedValueOnce({ best: '#card', alternates: [], frame: '0' });
+
+    const element = await commands.aiElement('card number field');
+
+    expect(element).toMatchObject({ selector: '#card' });
+    expect(browser.getPageSource).not.toHaveBeenCalled();
+    expect(browser.switchFrame).toHaveBeenLastCalledWith(frame);
+  });
+
+  it('returns to the top-level document for the next lookup', async () => {
+    const { browser, commands } = createFramedBrowser();
+    const llmClient = register(browser, { frames: true });
+    llmClient.generateLocator.mockResolvedValueOnce({ best: '#card', alternates: [], frame: '0' });
+
+    await commands.aiElement('card number field');
+    await commands.aiElement('login button');
+
+    expect(browser.switchFrame).toHaveBeenLastCalledWith(null);
+    expect(browser.$).toHaveBeenLastCalledWith('#login');
+  });
+
+  it('does not switch frames for elements in the document the browser is in', async () => {
+    const { browser, commands } = createFramedBrowser();
+    register(browser, { frames: true });
+
+    await commands.aiElement('login button');
+
+    expect(browser.switchFrame).not.toHaveBeenCalled();
+    expect(browser.$).toHaveBeenLastCalledWith('#login');
+  });
+
+  it('stays in a frame the caller switched into when the element is there', async () => {
+    const { browser, commands, frame, framePath } = createFramedBrowser();
+    const llmClient = register(browser, { frames: true });
+    llmClient.generateLocator.mockResolvedValueOnce({ best: '#card', alternates: [], frame: '0' });
+    await browser.switchFrame(frame);
+
+    await commands.aiElement('card number field');
+
+    expect(framePath()).toEqual([0]);
+    expect(browser.$).toHaveBeenLastCalledWith('#card');
+  });
+
+  it('warns when aiLocator returns a selector that only works inside a frame', async () => {
+    const { browser, commands } = createFramedBrowser();
+    const llmClient = register(browser, { frames: true });
+    llmClient.generateLocator.mockResolvedValueOnce({ best: '#card', alternates: [], frame: '0' });
+
+    expect(await commands.aiLocator('card number field')).toBe('#card');
+    expect(console.warn).toHaveBeenCalledWith(
+      '[wdio-ai][WARN]',
+      expect.stringContaining('inside frame 0')
+    );
+  });
+});
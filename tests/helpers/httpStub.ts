@@ -0,0 +1,54 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+export interface StubReply {
+  status: number;
+  body: any;
+}
+
+/**
+ * Local HTTP server that records each JSON request and answers with a canned reply.
+ * Lets provider clients be exercised end to end without reaching a real LLM API.
+ */
+export class HttpStub {
+  requests: RecordedRequest[] = [];
+  reply: StubReply = { status: 200, body: {} };
+  private server: http.Server;
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        this.requests.push({
+          method: req.method,
+          url: req.url,
+          headers: req.headers,
+          body: raw ? JSON.parse(raw) : undefined
+        });
+        res.writeHead(this.reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(this.reply.body));
+      });
+    });
+  }
+
+  get lastRequest(): RecordedRequest {
+    return this.requests[this.requests.length - 1];
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+}
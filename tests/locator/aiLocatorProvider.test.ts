@@ -0,0 +1,57 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { AiLocatorProvider } from '../../src/locator/aiLocatorProvider';
+import { LLMResponse } from '../../src/ai/llmClient';
+
+function providerReturning(response: LLMResponse) {
+  return new AiLocatorProvider({ generateLocator: vi.fn(async () => response) });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('AiLocatorProvider', () => {
+  it('reads typed best and alternates, including selectors containing |||', async () => {
+    const provider = providerReturning({
+      best: '[data-sep="a|||b"]',
+      alternates: ['#a'],
+      confidence: 0.8,
+      rationale: 'data attribute',
+      source: 'llm'
+    });
+
+    const result = await provider.find('<div></div>', 'separator');
+
+    expect(result.best).toBe('[data-sep="a|||b"]');
+    expect(result.alternates).toEqual(['#a']);
+    expect(result.metadata).toEqual({
+      source: 'llm',
+      confidence: 0.8,
+      rationale: 'data attribute'
+    });
+  });
+
+  it('still accepts the legacy delimited selector string', async () => {
+    const provider = providerReturning({ selector: '#login|||//button[@id="login"]' });
+
+    const result = await provider.find('<div></div>', 'login');
+
+    expect(result.best).toBe('#login');
+    expect(result.alternates).toEqual(['//button[@id="login"]']);
+    expect(result.metadata).toEqual({ source: 'llm' });
+  });
+
+  it('marks heuristic fallbacks with their origin', async () => {
+    const provider = providerReturning({ best: '//button', alternates: [], source: 'fallback' });
+
+    const result = await provider.find('<div></div>', 'button');
+
+    expect(result.metadata).toEqual({ source: 'fallback' });
+  });
+});
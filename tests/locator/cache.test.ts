@@ -1,16 +1,17 @@
 import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
-import { mkdtempSync, writeFileSync, readFileSync, rmSync, mkdirSync } from 'node:fs';
+import { mkdtempSync, writeFileSync, readFileSync, readdirSync, rmSync } from 'node:fs';
+import os from 'node:os';
 import path from 'node:path';
 import { LocatorCache } from '../../src/locator/cache';
 import { LocatorResult } from '../../src/types';
 
-const tmpRoot = path.join(process.cwd(), '.tmp-tests');
+let tmpRoot: string;
 
 beforeEach(() => {
   vi.spyOn(console, 'log').mockImplementation(() => {});
   vi.spyOn(console, 'warn').mockImplementation(() => {});
   vi.spyOn(console, 'error').mockImplementation(() => {});
-  rmSync(tmpRoot, { recursive: true, force: true });
+  tmpRoot = mkdtempSync(path.join(os.tmpdir(), 'locator-cache-test-'));
 });
 
 afterEach(() => {
@@ -19,8 +20,7 @@ afterEach(() => {
 });
 
 describe('LocatorCache', () => {
-  it('persists selectors to disk on set()', () => {
-    mkdirSync(tmpRoot, { recursive: true });
+  it('persists selectors to disk on set()', async () => {
     const tmpDir = mkdtempSync(path.join(tmpRoot, 'locator-cache-'));
     const filePath = path.join(tmpDir, 'cache.json');
 
@@ -31,14 +31,13 @@ describe('LocatorCache', () => {
       isTemplate: false
     };
 
-    cache.set('login::button', locator);
+    await cache.set('login::button', locator);
 
     const persisted = JSON.parse(readFileSync(filePath, 'utf-8'));
-    expect(persisted['login::button']).toEqual(locator);
+    expect(persisted['login::button']).toEqual({ ...locator, updatedAt: expect.any(String) });
   });
 
-  it('loads existing cache file on init', () => {
-    mkdirSync(tmpRoot, { recursive: true });
+  it('reads entries from an existing cache file', async () => {
     const tmpDir = mkdtempSync(path.join(tmpRoot, 'locator-cache-load-'));
     const filePath = path.join(tmpDir, 'cache.json');
 
@@ -53,7 +52,128 @@ describe('LocatorCache', () => {
     writeFileSync(filePath, JSON.stringify(existing, null, 2), 'utf-8');
 
     const cache = new LocatorCache(filePath);
-    const loaded = cache.get('https://example.com::search box');
+    const loaded = await cache.get('https://example.com::search box');
     expect(loaded).toEqual(existing['https://example.com::search box']);
   });
+
+  it('keeps entries written by other workers', async () => {
+    const filePath = path.join(
+      mkdtempSync(path.join(tmpRoot, 'locator-cache-merge-')),
+      'cache.json'
+    );
+    const workerA = new LocatorCache(filePath);
+    const workerB = new LocatorCache(filePath);
+
+    await workerA.set('a::login', { best: '#login' });
+    await workerB.set('b::search', { best: '#search' });
+
+    const persisted = JSON.parse(readFileSync(filePath, 'utf-8'));
+    expect(Object.keys(persisted).sort()).toEqual(['a::login', 'b::search']);
+    expect((await workerB.get('a::login'))?.best).toBe('#login');
+    expect(readdirSync(path.dirname(filePath))).toEqual(['cache.json']);
+  });
+
+  it('keeps the most recently updated entry for the same key', async () => {
+    const filePath = path.join(mkdtempSync(path.join(tmpRoot, 'locator-cache-lww-')), 'cache.json');
+    writeFileSync(
+      filePath,
+      JSON.stringify({ 'p::save': { best: '#old', updatedAt: '2024-01-01T00:00:00.000Z' } })
+    );
+    const stale = new LocatorCache(filePath);
+    const healer = new LocatorCache(filePath);
+    expect((await stale.get('p::save'))?.best).toBe('#old');
+
+    await healer.set('p::save', { best: '#new' });
+    await stale.set('p::cancel', { best: '#cancel' });
+
+    const persisted = JSON.parse(readFileSync(filePath, 'utf-8'));
+    expect(persisted['p::save'].best).toBe('#new');
+    expect(persisted['p::cancel'].best).toBe('#cancel');
+  });
+});
+
+describe('LocatorCache hits', () => {
+  function createCache() {
+    const filePath = path.join(
+      mkdtempSync(path.join(tmpRoot, 'locator-cache-hits-')),
+      'cache.json'
+    );
+    return filePath;
+  }
+
+  it('adds hits to the counts stored by other workers on flush', async () => {
+    const filePath = createCache();
+    const workerA = new LocatorCache(filePath);
+    const workerB = new LocatorCache(filePath);
+    await workerA.set('p::save', { best: '#save', hitCount: 0 });
+    await workerB.get('p::save');
+
+    workerA.recordHit('p::save', true);
+    workerB.recordHit('p::save', true);
+    workerB.recordHit('p::save', false);
+    await workerA.flush();
+    await workerB.flush();
+
+    expect(JSON.parse(readFileSync(filePath, 'utf-8'))['p::save'].hitCount).toBe(3);
+  });
+
+  it('leaves entries another worker replaced since to their own counts', async () => {
+    const filePath = createCache();
+    const stale = new LocatorCache(filePath);
+    await stale.set('p::save', { best: '#old', hitCount: 4 });
+    stale.recordHit('p::save', true);
+
+    await new LocatorCache(filePath).set('p::save', { best: '#new', hitCount: 0 });
+    await stale.flush();
+
+    expect(JSON.parse(readFileSync(filePath, 'utf-8'))['p::save']).toMatchObject({
+      best: '#new',
+      hitCount: 0
+    });
+  });
+});
+
+describe('LocatorCache expiry', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const ago = (ms: number) => new Date(Date.now() - ms).toISOString();
+
+  function writeCache(entries: Record<string, LocatorResult>) {
+    const filePath = path.join(mkdtempSync(path.join(tmpRoot, 'locator-cache-ttl-')), 'cache.json');
+    writeFileSync(filePath, JSON.stringify(entries));
+    return filePath;
+  }
+
+  it('evicts entries not verified within the TTL', async () => {
+    const filePath = writeCache({
+      'p::stale': { best: '#stale', createdAt: ago(10 * day), lastVerifiedAt: ago(3 * day) },
+      'p::fresh': { best: '#fresh', createdAt: ago(10 * day), lastVerifiedAt: ago(day / 2) }
+    });
+    const cache = new LocatorCache(filePath, { ttl: day });
+
+    expect(await cache.get('p::stale')).toBeUndefined();
+    expect((await cache.get('p::fresh'))?.best).toBe('#fresh');
+    expect(Object.keys(JSON.parse(readFileSync(filePath, 'utf-8')))).toEqual(['p::fresh']);
+  });
+
+  it('evicts entries older than maxAge however recently used', async () => {
+    const filePath = writeCache({
+      'p::old': { best: '#old', createdAt: ago(40 * day), lastVerifiedAt: ago(0) },
+      'p::legacy': { best: '#legacy', updatedAt: ago(40 * day) }
+    });
+    const cache = new LocatorCache(filePath, { maxAge: 30 * day });
+
+    expect(await cache.get('p::old')).toBeUndefined();
+    expect(await cache.get('p::legacy')).toBeUndefined();
+  });
+
+  it('prunes every expired entry', async () => {
+    const filePath = writeCache({
+      'p::stale': { best: '#stale', lastVerifiedAt: ago(3 * day) },
+      'p::fresh': { best: '#fresh', lastVerifiedAt: ago(0) }
+    });
+
+    expect(await new LocatorCache(filePath).prune()).toEqual([]);
+    expect(await new LocatorCache(filePath, { ttl: day }).prune()).toEqual(['p::stale']);
+    expect(Object.keys(JSON.parse(readFileSync(filePath, 'utf-8')))).toEqual(['p::fresh']);
+  });
 });
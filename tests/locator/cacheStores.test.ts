@@ -0,0 +1,182 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, existsSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  CacheStore,
+  DirectoryCacheStore,
+  JsonFileCacheStore,
+  SqliteCacheStore,
+  createCacheStore
+} from '../../src/locator/cacheStores';
+import { LocatorCache } from '../../src/locator/cache';
+import { LocatorResult } from '../../src/types';
+import { withFileLock } from '../../src/utils/fileLock';
+
+let tmpRoot: string;
+
+const sqliteAvailable = (() => {
+  try {
+    require('node:sqlite');
+    return true;
+  } catch (_err) {
+    return false;
+  }
+})();
+
+function tmpDir() {
+  return mkdtempSync(path.join(tmpRoot, 'cache-stores-'));
+}
+
+const older: LocatorResult = { best: '#old', updatedAt: '2024-01-01T00:00:00.000Z' };
+const newer: LocatorResult = { best: '#new', updatedAt: '2025-01-01T00:00:00.000Z' };
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  tmpRoot = mkdtempSync(path.join(os.tmpdir(), 'cache-stores-test-'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+const builtInStores: [string, (dir: string) => CacheStore, boolean][] = [
+  ['JsonFileCacheStore', (dir) => new JsonFileCacheStore(path.join(dir, 'cache.json')), true],
+  ['DirectoryCacheStore', (dir) => new DirectoryCacheStore(path.join(dir, 'cache')), true],
+  [
+    'SqliteCacheStore',
+    (dir) => new SqliteCacheStore(path.join(dir, 'cache.sqlite')),
+    sqliteAvailable
+  ]
+];
+
+describe.each(builtInStores)('%s', (_name, createStore, available) => {
+  it.runIf(available)('stores, lists, deletes and clears entries', async () => {
+    const store = createStore(tmpDir());
+
+    await store.set('https://example.com/login::login button', { best: '#login' });
+    await store.set('https://example.com/::search box', { best: '#search' });
+
+    expect(await store.get('https://example.com/login::login button')).toEqual({ best: '#login' });
+    expect(Object.keys((await store.list()) as Record<string, LocatorResult>).sort()).toEqual([
+      'https://example.com/::search box',
+      'https://example.com/login::login button'
+    ]);
+
+    await store.delete('https://example.com/login::login button');
+    expect(await store.get('https://example.com/login::login button')).toBeUndefined();
+
+    await store.clear();
+    expect(await store.list()).toEqual({});
+  });
+
+  it.runIf(available)('does not replace an entry with an older one', async () => {
+    const store = createStore(tmpDir());
+
+    await store.set('https://example.com/::save', newer);
+    await store.set('https://example.com/::save', older);
+
+    expect(await store.get('https://example.com/::save')).toEqual(newer);
+  });
+});
+
+describe('DirectoryCacheStore', () => {
+  it('shards entries by URL host and path', () => {
+    const dir = path.join(tmpDir(), 'cache');
+    const store = new DirectoryCacheStore(dir);
+
+    expect(store.shardPath('https://example.com/account/login::login button')).toBe(
+      path.join(dir, 'example.com', 'account', 'login.json')
+    );
+    expect(store.shardPath('https://example.com/::search')).toBe(
+      path.join(dir, 'example.com', 'index.json')
+    );
+    expect(store.shardPath('http://localhost:3000/a?b=1::x')).toBe(
+      path.join(dir, 'localhost_3000', 'a.json')
+    );
+    expect(store.shardPath('android://com.example/.LoginActivity::login')).toBe(
+      path.join(dir, 'com.example', '.LoginActivity.json')
+    );
+    expect(store.shardPath('unknown-url::login')).toBe(path.join(dir, '_other.json'));
+  });
+
+  it('writes sorted keys and removes shards that become empty', async () => {
+    const dir = path.join(tmpDir(), 'cache');
+    const store = new DirectoryCacheStore(dir);
+    const shard = path.join(dir, 'example.com', 'login.json');
+
+    await store.set('https://example.com/login::submit', { best: '#submit' });
+    await store.set('https://example.com/login::email', { best: '#email' });
+
+    expect(Object.keys(JSON.parse(readFileSync(shard, 'utf-8')))).toEqual([
+      'https://example.com/login::email',
+      'https://example.com/login::submit'
+    ]);
+
+    await store.delete('https://example.com/login::submit');
+    await store.delete('https://example.com/login::email');
+    expect(existsSync(shard)).toBe(false);
+  });
+
+  it('waits for a writer holding a shard lock before clearing it', async () => {
+    const dir = path.join(tmpDir(), 'cache');
+    const store = new DirectoryCacheStore(dir);
+    const shard = path.join(dir, 'example.com', 'login.json');
+    await store.set('https://example.com/login::submit', { best: '#submit' });
+    let release!: () => void;
+    const writer = withFileLock(shard, () => new Promise<void>((resolve) => (release = resolve)));
+
+    const clearing = store.clear();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(existsSync(shard)).toBe(true);
+    release();
+    await Promise.all([writer, clearing]);
+
+    expect(existsSync(shard)).toBe(false);
+    expect(existsSync(`${shard}.lock`)).toBe(false);
+  });
+});
+
+describe('SqliteCacheStore', () => {
+  it.runIf(!sqliteAvailable)('explains that node:sqlite is needed', () => {
+    expect(() => new SqliteCacheStore(path.join(tmpDir(), 'cache.sqlite'))).toThrow(
+      'node:sqlite (Node.js 22.5+)'
+    );
+  });
+});
+
+describe('createCacheStore', () => {
+  it('builds the named store at the cache path', () => {
+    const dir = tmpDir();
+
+    expect(createCacheStore('file', path.join(dir, 'c.json'))).toBeInstanceOf(JsonFileCacheStore);
+    expect(createCacheStore('directory', path.join(dir, 'c'))).toBeInstanceOf(DirectoryCacheStore);
+    expect(() => createCacheStore('redis' as any)).toThrow('Unsupported cache store: redis');
+  });
+
+  it('uses a custom store as given', async () => {
+    // Stands in for a store on a Redis-protocol server or a CI artifact
+    const data = new Map<string, LocatorResult>();
+    const store: CacheStore = {
+      get: async (key) => data.get(key),
+      set: async (key, value) => void data.set(key, value),
+      delete: async (key) => void data.delete(key),
+      list: async () => Object.fromEntries(data),
+      clear: async () => data.clear()
+    };
+    expect(createCacheStore(store)).toBe(store);
+
+    const cache = new LocatorCache(store);
+    await cache.set('https://example.com/::save', { best: '#save' });
+
+    expect(data.get('https://example.com/::save')).toMatchObject({ best: '#save' });
+    expect(await new LocatorCache(store).get('https://example.com/::save')).toMatchObject({
+      best: '#save'
+    });
+    await cache.clear();
+    expect(await cache.list()).toEqual({});
+  });
+});
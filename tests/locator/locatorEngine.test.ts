@@ -0,0 +1,678 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { LocatorEngine, LocatorEngineOptions } from '../../src/locator/locatorEngine';
+import { LocatorCache } from '../../src/locator/cache';
+import { AiLocatorProvider } from '../../src/locator/aiLocatorProvider';
+import { InvalidLLMResponseError } from '../../src/ai/responseSchema';
+import { captureAccessibilitySnapshot } from '../../src/utils/accessibilitySnapshot';
+import { readFramePath } from '../../src/locator/frames';
+
+let tmpRoot: string;
+
+function createBrowser(
+  matchCounts: Record<string, number>,
+  state: { hidden?: string[]; disabled?: string[] } = {}
+) {
+  const find = (selector: string) =>
+    Object.keys(matchCounts).find((fragment) => selector.includes(fragment));
+  const countFor = (selector: string) => matchCounts[find(selector) ?? ''] ?? 0;
+
+  return {
+    getUrl: vi.fn(async () => 'https://example.com/login'),
+    execute: vi.fn(async () => '<html><body></body></html>'),
+    $$: vi.fn(async (selector: string) => {
+      const fragment = find(selector) ?? '';
+      return new Array(countFor(selector)).fill({
+        isDisplayed: async () => !state.hidden?.includes(fragment),
+        isEnabled: async () => !state.disabled?.includes(fragment)
+      });
+    })
+  } as unknown as WebdriverIO.Browser;
+}
+
+function createEngine(find = vi.fn(), maxRetries = 0, options: LocatorEngineOptions = {}) {
+  const tmpDir = mkdtempSync(path.join(tmpRoot, 'locator-engine-'));
+  const cache = new LocatorCache(path.join(tmpDir, 'cache.json'));
+  const provider = { find } as unknown as AiLocatorProvider;
+  return { engine: new LocatorEngine(cache, provider, maxRetries, options), cache, find };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  tmpRoot = mkdtempSync(path.join(os.tmpdir(), 'locator-engine-test-'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('LocatorEngine strategies tier', () => {
+  it('resolves a unique strategy match without calling the AI', async () => {
+    const { engine, cache, find } = createEngine();
+    const browser = createBrowser({ '//button[': 1 });
+
+    const result = await engine.findLocator(browser, 'login button');
+
+    expect(find).not.toHaveBeenCalled();
+    expect(result.metadata).toEqual({ source: 'strategy', strategy: 'buttonByText' });
+    expect(await cache.get('https://example.com/login::login button')).toMatchObject(result);
+  });
+
+  it('skips candidates that match more than one element', async () => {
+    const find = vi.fn(async () => ({ best: '#login', alternates: [] }));
+    const { engine } = createEngine(find);
+    const browser = createBrowser({ '//button[': 3, '#login': 1 });
+
+    const result = await engine.findLocator(browser, 'login button');
+
+    expect(find).toHaveBeenCalledOnce();
+    expect(result.best).toBe('#login');
+  });
+
+  it('goes straight to the AI in alwaysAI mode', async () => {
+    const find = vi.fn(async () => ({ best: '#login', alternates: [] }));
+    const { engine } = createEngine(find);
+    const browser = createBrowser({ '//button[': 1, '#login': 1 });
+
+    const result = await engine.findLocator(browser, 'login button', undefined, true);
+
+    expect(browser.$$).toHaveBeenCalledOnce();
+    expect(browser.$$).toHaveBeenCalledWith('#login');
+    expect(result.best).toBe('#login');
+  });
+
+  it('retries when the AI response is rejected as invalid', async () => {
+    const find = vi
+      .fn()
+      .mockRejectedValueOnce(new InvalidLLMResponseError('not JSON', 'the login button'))
+      .mockResolvedValueOnce({ best: '#login', alternates: [] });
+    const tmpDir = mkdtempSync(path.join(tmpRoot, 'locator-engine-'));
+    const engine = new LocatorEngine(
+      new LocatorCache(path.join(tmpDir, 'cache.json')),
+      { find } as unknown as AiLocatorProvider,
+      1
+    );
+    const browser = createBrowser({ '#login': 1 });
+
+    const result = await engine.findLocator(browser, 'login button', undefined, true);
+
+    expect(find).toHaveBeenCalledTimes(2);
+    expect(result.best).toBe('#login');
+  });
+});
+
+describe('LocatorEngine fallback handling', () => {
+  const fallback = {
+    best: "//*[contains(normalize-space(.), 'Save')]",
+    alternates: ["//button[contains(normalize-space(.), 'Save')]"],
+    metadata: { source: 'fallback' }
+  };
+
+  function createFallbackEngine(cacheFallbacks?: boolean) {
+    const tmpDir = mkdtempSync(path.join(tmpRoot, 'locator-engine-'));
+    const cache = new LocatorCache(path.join(tmpDir, 'cache.json'));
+    const find = vi.fn(async () => fallback);
+    const engine = new LocatorEngine(cache, { find } as unknown as AiLocatorProvider, 0, {
+      cacheFallbacks
+    });
+    return { engine, cache };
+  }
+
+  it('requires a unique match and does not cache fallbacks by default', async () => {
+    const { engine, cache } = createFallbackEngine();
+    const browser = createBrowser({ '//*[contains': 12, '//button[contains': 1 });
+
+    const result = await engine.findLocator(browser, 'Save button', undefined, true);
+
+    expect(result.best).toBe("//button[contains(normalize-space(.), 'Save')]");
+    expect(result.metadata).toEqual({ source: 'fallback' });
+    expect(await cache.get('https://example.com/login::Save button')).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(
+      '[wdio-ai][WARN]',
+      expect.stringContaining('LLM unavailable')
+    );
+  });
+
+  it('fails instead of accepting a fallback that matches several elements', async () => {
+    const { engine } = createFallbackEngine();
+    const browser = createBrowser({ '//*[contains': 12, '//button[contains': 2 });
+
+    await expect(engine.findLocator(browser, 'Save button', undefined, true)).rejects.toThrow(
+      'Unable to resolve locator'
+    );
+  });
+
+  it('caches fallbacks when cacheFallbacks is enabled', async () => {
+    const { engine, cache } = createFallbackEngine(true);
+    const browser = createBrowser({ '//*[contains': 1 });
+
+    await engine.findLocator(browser, 'Save button', undefined, true);
+
+    expect((await cache.get('https://example.com/login::Save button'))?.metadata).toEqual({
+      source: 'fallback'
+    });
+  });
+});
+
+describe('LocatorEngine verification levels', () => {
+  it('accepts a multi-match selector at the default exists level', async () => {
+    const find = vi.fn(async () => ({ best: '.save', alternates: [] }));
+    const { engine } = createEngine(find);
+    const browser = createBrowser({ '.save': 12 });
+
+    const result = await engine.findLocator(browser, 'Save', undefined, true);
+
+    expect(result.best).toBe('.save');
+  });
+
+  it('falls through to an alternate when the best selector is not unique', async () => {
+    const find = vi.fn(async () => ({ best: '.save', alternates: ['#save'] }));
+    const { engine } = createEngine(find, 0, { verification: 'unique' });
+    const browser = createBrowser({ '.save': 12, '#save': 1 });
+
+    const result = await engine.findLocator(browser, 'Save', undefined, true);
+
+    expect(result.best).toBe('#save');
+  });
+
+  it('retries the AI with the number of elements a selector matched', async () => {
+    const find = vi
+      .fn()
+      .mockResolvedValueOnce({ best: '.save', alternates: [] })
+      .mockResolvedValueOnce({ best: '#save', alternates: [] });
+    const { engine } = createEngine(find, 1, { verification: 'unique' });
+    const browser = createBrowser({ '.save': 12, '#save': 1 });
+
+    const result = await engine.findLocator(browser, 'Save', undefined, true);
+
+    expect(result.best).toBe('#save');
+    expect(find.mock.calls[1][4]).toEqual([
+      '.save matched 12 elements; a selector matching exactly one element is required'
+    ]);
+  });
+
+  it('lets a per-call level override the engine default', async () => {
+    const find = vi.fn(async () => ({ best: '#save', alternates: ['#save-visible'] }));
+    const { engine } = createEngine(find);
+    const browser = createBrowser({ '#save-visible': 1, '#save': 1 }, { hidden: ['#save'] });
+
+    const result = await engine.findLocator(
+      browser,
+      'Save',
+      undefined,
+      true,
+      false,
+      undefined,
+      true,
+      'visible'
+    );
+
+    expect(result.best).toBe('#save-visible');
+  });
+
+  it('re-resolves a cached selector that is no longer interactable', async () => {
+    const find = vi.fn(async () => ({ best: '#save', alternates: [] }));
+    const { engine, cache } = createEngine(find, 0, { verification: 'interactable' });
+    await cache.set('https://example.com/login::Save', { best: '#old-save', alternates: [] });
+    const browser = createBrowser({ '#old-save': 1, '#save': 1 }, { disabled: ['#old-save'] });
+
+    const result = await engine.findLocator(browser, 'Save', undefined, false, true);
+
+    expect(find).toHaveBeenCalledOnce();
+    expect(result.best).toBe('#save');
+  });
+});
+
+describe('LocatorEngine retry feedback', () => {
+  it('tells the AI why each earlier selector failed', async () => {
+    const find = vi
+      .fn()
+      .mockResolvedValueOnce({ best: '#missing', alternates: ['#hidden'] })
+      .mockResolvedValueOnce({ best: '//[broken', alternates: [] })
+      .mockResolvedValueOnce({ best: '#save', alternates: [] });
+    const { engine } = createEngine(find, 2, { verification: 'visible' });
+    const browser = createBrowser({ '#hidden': 1, '#save': 1 }, { hidden: ['#hidden'] });
+    const $$ = browser.$$ as unknown as ReturnType<typeof vi.fn>;
+    const countElements = $$.getMockImplementation()!;
+    $$.mockImplementation(async (selector: string) => {
+      if (selector.startsWith('//[')) throw new Error('invalid selector');
+      return countElements(selector);
+    });
+
+    const result = await engine.findLocator(browser, 'Save', undefined, true);
+
+    expect(result.best).toBe('#save');
+    expect(find.mock.calls[0][4]).toEqual([]);
+    expect(find.mock.calls[1][4]).toEqual([
+      '#missing matched no elements',
+      '#hidden matched an element that is not visible'
+    ]);
+    expect(find.mock.calls[2][4]).toEqual([
+      '#missing matched no elements',
+      '#hidden matched an element that is not visible',
+      '//[broken is not a valid selector (invalid selector)'
+    ]);
+  });
+
+  it('does not report heuristic fallback selectors back to the AI', async () => {
+    const find = vi
+      .fn()
+      .mockResolvedValueOnce({ best: '#guess', alternates: [], metadata: { source: 'fallback' } })
+      .mockResolvedValueOnce({ best: '#save', alternates: [] });
+    const { engine } = createEngine(find, 1);
+    const browser = createBrowser({ '#save': 1 });
+
+    await engine.findLocator(browser, 'Save', undefined, true);
+
+    expect(find.mock.calls[1][4]).toEqual([]);
+  });
+});
+
+describe('LocatorEngine shadow DOM', () => {
+  it('captures shadow roots and falls back to a deep selector', async () => {
+    const find = vi.fn(async () => ({ best: 'button.save', alternates: [] }));
+    const { engine } = createEngine(find, 0, { shadowDom: true });
+    const browser = createBrowser({ '>>>button.save': 1 });
+    (browser.execute as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(
+      '<html><body><div id="host"><wdio-shadow-root><button class="save">Save</button></wdio-shadow-root></div></body></html>'
+    );
+
+    const result = await engine.findLocator(browser, 'Save', undefined, true);
+
+    expect(result.best).toBe('>>>button.save');
+    expect(browser.execute).toHaveBeenCalledWith(expect.any(Function), {
+      shadowRoot: 'wdio-shadow-root',
+      frame: undefined
+    });
+    expect(find.mock.calls[0][5]).toEqual({
+      scoped: false,
+      shadowDom: true,
+      frames: false,
+      platform: 'web'
+    });
+  });
+});
+
+describe('LocatorEngine frames', () => {
+  function createFramedBrowser(callerFrame: number[] | null = []) {
+    const browser = createBrowser({ '#card': 1, '#login': 1, 'iframe, frame': 1 }) as any;
+    browser.switchFrame = vi.fn(async () => {});
+    browser.execute = vi.fn(async (fn: unknown) =>
+      fn === readFramePath
+        ? callerFrame
+        : '<html><body><iframe id="pay"></iframe><wdio-frame path="0"><input id="card" /></wdio-frame></body></html>'
+    );
+    return browser as WebdriverIO.Browser;
+  }
+
+  const switchTargets = (browser: WebdriverIO.Browser) =>
+    (browser.switchFrame as unknown as ReturnType<typeof vi.fn>).mock.calls.map(([target]) =>
+      target === null ? 'top' : 'frame'
+    );
+
+  it('verifies the AI answer inside its frame and caches the frame path', async () => {
+    const find = vi.fn(async () => ({ best: '#card', alternates: [], frame: [0] }));
+    const { engine, cache } = createEngine(find, 0, { frames: true });
+    const browser = createFramedBrowser();
+
+    const result = await engine.findLocator(browser, 'card number', undefined, true);
+
+    expect(result.frame).toEqual([0]);
+    expect(find.mock.calls[0][5]).toEqual({
+      scoped: false,
+      shadowDom: false,
+      frames: true,
+      platform: 'web'
+    });
+    expect(browser.execute).toHaveBeenCalledWith(expect.any(Function), {
+      shadowRoot: undefined,
+      frame: 'wdio-frame'
+    });
+    // Enters frame 0 from the top document to verify, then returns to the top
+    expect(switchTargets(browser)).toEqual(['top', 'frame', 'top']);
+    expect((await cache.get('https://example.com/login::card number'))?.frame).toEqual([0]);
+  });
+
+  it('verifies a cached selector inside its frame', async () => {
+    const { engine, cache, find } = createEngine(vi.fn(), 0, { frames: true });
+    const browser = createFramedBrowser();
+    await cache.set('https://example.com/login::card number', {
+      best: '#card',
+      alternates: [],
+      frame: [0]
+    });
+
+    const result = await engine.findLocator(browser, 'card number');
+
+    expect(find).not.toHaveBeenCalled();
+    expect(result.frame).toEqual([0]);
+    expect(browser.$$).toHaveBeenCalledWith('iframe, frame');
+  });
+
+  it('heals a cached selector whose frame is gone', async () => {
+    const find = vi.fn(async () => ({ best: '#card', alternates: [] }));
+    const { engine, cache } = createEngine(find, 0, { frames: true });
+    const browser = createFramedBrowser();
+    await cache.set('https://example.com/login::card number', { best: '#card', frame: [3] });
+
+    const result = await engine.findLocator(browser, 'card number');
+
+    expect(find).toHaveBeenCalledOnce();
+    expect(result.frame).toBeUndefined();
+    // The failed switch still returns to the top-level document
+    expect(switchTargets(browser)).toEqual(['top', 'top']);
+  });
+
+  it('reports a frame the AI made up and retries', async () => {
+    const find = vi
+      .fn()
+      .mockResolvedValueOnce({ best: '#card', alternates: [], frame: [3] })
+      .mockResolvedValueOnce({ best: '#card', alternates: [], frame: [0] });
+    const { engine } = createEngine(find, 1, { frames: true });
+
+    const result = await engine.findLocator(createFramedBrowser(), 'card number', undefined, true);
+
+    expect(result.frame).toEqual([0]);
+    expect(find.mock.calls[1][4]).toEqual([
+      '#card matched no elements (frame 3 could not be entered)'
+    ]);
+  });
+
+  it("returns to the caller's frame after the lookup", async () => {
+    const find = vi.fn(async () => ({ best: '#login', alternates: [] }));
+    const { engine } = createEngine(find, 0, { frames: true });
+    const browser = createFramedBrowser([0]);
+
+    await engine.findLocator(browser, 'login', undefined, true);
+
+    expect(switchTargets(browser)).toEqual(['top', 'top', 'frame']);
+  });
+
+  it('stays in the current context when its frame cannot be read', async () => {
+    const find = vi.fn(async () => ({ best: '#login', alternates: [] }));
+    const { engine } = createEngine(find, 0, { frames: true });
+    const browser = createFramedBrowser(null);
+
+    await engine.findLocator(browser, 'login', undefined, true);
+
+    expect(browser.switchFrame).not.toHaveBeenCalled();
+  });
+});
+
+describe('LocatorEngine native contexts', () => {
+  it('sends the minimised view hierarchy and skips the web strategies', async () => {
+    const find = vi.fn(async () => ({ best: '~login', alternates: [] }));
+    const { engine, cache } = createEngine(find);
+    const browser = createBrowser({ '~login': 1, '//button[': 1 }) as any;
+    browser.capabilities = { platformName: 'Android', 'appium:appPackage': 'com.example' };
+    browser.getCurrentActivity = vi.fn(async () => '.LoginActivity');
+    browser.getPageSource = vi.fn(
+      async () =>
+        '<hierarchy><android.widget.Button content-desc="login" bounds="[0,0][1,1]"/></hierarchy>'
+    );
+
+    const result = await engine.findLocator(browser, 'login button');
+
+    expect(result.best).toBe('~login');
+    expect(browser.execute).not.toHaveBeenCalled();
+    expect(find.mock.calls[0][0]).toBe(
+      '<hierarchy><android.widget.Button content-desc="login"/></hierarchy>'
+    );
+    expect(find.mock.calls[0][5]).toMatchObject({ platform: 'android' });
+    expect(browser.$$).not.toHaveBeenCalledWith(expect.stringContaining('//button['));
+    expect(await cache.get('android://com.example/.LoginActivity::login button')).toMatchObject(
+      result
+    );
+  });
+});
+
+describe('LocatorEngine accessibility snapshot', () => {
+  const snapshot = {
+    text: '- form "Login" [ref=e1]\n  - button "Sign in" [ref=e2]',
+    refs: { e1: ['#login-form'], e2: ['#signin', '//button[normalize-space(.)="Sign in"]'] }
+  };
+
+  function createSnapshotBrowser() {
+    const browser = createBrowser({ '#signin': 1, '#x': 1 }) as any;
+    browser.execute = vi.fn(async (fn: unknown) =>
+      fn === captureAccessibilitySnapshot ? snapshot : '<html><body></body></html>'
+    );
+    return browser as WebdriverIO.Browser;
+  }
+
+  it('sends only the snapshot in a11y mode and resolves the chosen ref', async () => {
+    const find = vi.fn(async () => ({ best: '', alternates: [], ref: 'e2' }));
+    const { engine, cache } = createEngine(find, 0, { contextMode: 'a11y' });
+    const browser = createSnapshotBrowser();
+
+    const result = await engine.findLocator(browser, 'sign in button', undefined, true);
+
+    expect(result).toMatchObject({
+      best: '#signin',
+      alternates: ['//button[normalize-space(.)="Sign in"]']
+    });
+    expect(result).not.toHaveProperty('ref');
+    expect(find.mock.calls[0][0]).toBe('');
+    expect(find.mock.calls[0][5]).toMatchObject({ contextMode: 'a11y', snapshot: snapshot.text });
+    expect(await cache.get('https://example.com/login::sign in button')).toMatchObject(result);
+  });
+
+  it('reports an unknown ref back to the AI', async () => {
+    const find = vi
+      .fn()
+      .mockResolvedValueOnce({ best: '', alternates: [], ref: 'e9' })
+      .mockResolvedValueOnce({ best: '', alternates: [], ref: 'e2' });
+    const { engine } = createEngine(find, 1, { contextMode: 'a11y' });
+
+    const result = await engine.findLocator(createSnapshotBrowser(), 'sign in', undefined, true);
+
+    expect(result.best).toBe('#signin');
+    expect(find.mock.calls[1][4]).toEqual(['ref e9 is not in the accessibility snapshot']);
+  });
+
+  it('keeps the AI selectors as alternates in hybrid mode', async () => {
+    const find = vi.fn(async () => ({ best: '#x', alternates: [], ref: 'e2' }));
+    const { engine } = createEngine(find, 0, { contextMode: 'hybrid' });
+
+    const result = await engine.findLocator(
+      createSnapshotBrowser(),
+      'sign in',
+      '<button id="x">Sign in</button>',
+      true
+    );
+
+    expect(result.best).toBe('#signin');
+    expect(result.alternates).toContain('#x');
+    expect(find.mock.calls[0][0]).toBe('<button id="x">Sign in</button>');
+    expect(find.mock.calls[0][5]).toMatchObject({ contextMode: 'hybrid' });
+  });
+
+  it('falls back to HTML for template requests', async () => {
+    const find = vi.fn(async () => ({ best: '#x', alternates: [], isTemplate: false }));
+    const { engine } = createEngine(find, 0, { contextMode: 'a11y' });
+    const browser = createSnapshotBrowser();
+
+    await engine.findLocator(browser, 'row for {user}', undefined, true, true);
+
+    expect(browser.execute).not.toHaveBeenCalledWith(captureAccessibilitySnapshot, null);
+    expect(find.mock.calls[0][5]).not.toHaveProperty('contextMode');
+  });
+});
+
+describe('LocatorEngine DOM budget', () => {
+  it('sends the parts of a large page relevant to the description', async () => {
+    const find = vi.fn(async () => ({ best: '.apply', alternates: [] }));
+    const { engine } = createEngine(find, 0, { maxDomTokens: 100 });
+    const browser = createBrowser({ '.apply': 1 });
+    const filler = Array.from({ length: 50 }, (_, i) => `<p>Lorem ipsum ${i}</p>`).join('');
+    (browser.execute as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(
+      `<html><body><div>${filler}</div><form><button class="apply">Apply coupon</button></form></body></html>`
+    );
+
+    await engine.findLocator(browser, 'apply coupon button', undefined, true);
+
+    expect(engine.maxDomChars).toBe(400);
+    expect(find.mock.calls[0][0]).toBe('<form><button class="apply">Apply coupon</button></form>');
+  });
+});
+
+describe('LocatorEngine DOM profile', () => {
+  it('minimises the page with the configured profile', async () => {
+    const find = vi.fn(async () => ({ best: 'mat-select', alternates: [] }));
+    const { engine } = createEngine(find, 0, {
+      domProfile: { customElements: ['mat-*'], allowedAttributes: ['formcontrolname'] }
+    });
+    const browser = createBrowser({ 'mat-select': 1 });
+    (browser.execute as unknown as ReturnType<typeof vi.fn>).mockResolvedValue(
+      '<html><body><mat-select formcontrolname="country">Country</mat-select></body></html>'
+    );
+
+    await engine.findLocator(browser, 'country dropdown', undefined, true);
+
+    expect(find.mock.calls[0][0]).toBe(
+      '<mat-select formcontrolname="country">Country</mat-select>'
+    );
+  });
+});
+
+describe('LocatorEngine cache keys', () => {
+  it('shares cached selectors between URLs that differ by id and query', async () => {
+    const find = vi.fn(async () => ({ best: '#cancel', alternates: [] }));
+    const { engine, cache } = createEngine(find);
+    const browser = createBrowser({ '#cancel': 1 });
+    const getUrl = browser.getUrl as unknown as ReturnType<typeof vi.fn>;
+
+    getUrl.mockResolvedValue('https://example.com/orders/1234?tab=items');
+    await engine.findLocator(browser, 'cancel order button', '<button id="cancel">Cancel</button>');
+    getUrl.mockResolvedValue('https://example.com/orders/5678');
+    await engine.findLocator(browser, 'cancel order button', '<button id="cancel">Cancel</button>');
+
+    expect(find).toHaveBeenCalledOnce();
+    expect(await cache.get('https://example.com/orders/:id::cancel order button')).toBeDefined();
+  });
+
+  it('scopes keys with cacheKeyFn', async () => {
+    const find = vi.fn(async () => ({ best: '#logo', alternates: [] }));
+    const cacheKeyFn = vi.fn((url: string, description: string) =>
+      description.startsWith('header') ? 'global' : url
+    );
+    const { engine, cache } = createEngine(find, 0, { cacheKeyFn });
+    const browser = createBrowser({ '#logo': 1 });
+
+    await engine.findLocator(browser, 'header logo', '<img id="logo" />', true);
+
+    expect(cacheKeyFn).toHaveBeenCalledWith('https://example.com/login', 'header logo');
+    expect(await cache.get('global::header logo')).toBeDefined();
+  });
+});
+
+describe('LocatorEngine cache metadata', () => {
+  const key = 'https://example.com/login::save button';
+
+  it('records how and when the selector was produced', async () => {
+    const find = vi.fn(async () => ({
+      best: '#save',
+      alternates: [],
+      provider: 'OpenAI',
+      model: 'gpt-4o-mini',
+      metadata: { source: 'llm' }
+    }));
+    const { engine, cache } = createEngine(find);
+    const browser = createBrowser({ '#save': 1 });
+
+    await engine.findLocator(
+      browser,
+      'save button',
+      '<form><button id="save">Save</button></form>'
+    );
+
+    const entry = await cache.get(key);
+    expect(entry).toMatchObject({
+      source: 'llm',
+      provider: 'OpenAI',
+      model: 'gpt-4o-mini',
+      hitCount: 0,
+      healCount: 0,
+      createdAt: expect.any(String),
+      lastVerifiedAt: entry?.createdAt,
+      domFingerprint: expect.stringMatching(/^[0-9a-f]{16}$/)
+    });
+  });
+
+  it('counts verified cache hits in memory until the cache is flushed', async () => {
+    const { engine, cache } = createEngine();
+    await cache.set(key, { best: '#save', createdAt: '2025-01-01T00:00:00.000Z' });
+    const browser = createBrowser({ '#save': 1 });
+    const write = vi.spyOn(cache.store, 'set');
+
+    await engine.findLocator(browser, 'save button');
+    const result = await engine.findLocator(browser, 'save button');
+
+    expect(result.hitCount).toBe(2);
+    expect(write).not.toHaveBeenCalled();
+
+    await cache.flush();
+
+    expect(write).toHaveBeenCalledOnce();
+    expect(await cache.store.get(key)).toMatchObject({
+      hitCount: 2,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      lastVerifiedAt: expect.any(String)
+    });
+  });
+
+  it('keeps the counters and age when alwaysAI re-resolves a cached entry', async () => {
+    const find = vi.fn(async () => ({ best: '#save', alternates: [] }));
+    const { engine, cache } = createEngine(find);
+    const createdAt = new Date(Date.now() - 60000).toISOString();
+    await cache.set(key, { best: '#save', hitCount: 5, healCount: 1, createdAt });
+
+    await engine.findLocator(createBrowser({ '#save': 1 }), 'save button', undefined, true);
+
+    expect(await cache.get(key)).toMatchObject({ hitCount: 5, healCount: 1, createdAt });
+  });
+
+  it('takes the fingerprint from the page, not from the DOM trimmed for the description', async () => {
+    const find = vi.fn(async () => ({ best: '#save', alternates: [] }));
+    const { engine, cache } = createEngine(find, 0, { maxDomChars: 200 });
+    const browser = createBrowser({ '#save': 1 });
+    const page = `<main>${'<section><p>Filler text</p></section>'.repeat(20)}<form><button id="save">Save</button><a href="/help">Help</a></form></main>`;
+
+    await engine.findLocator(browser, 'save button', page, true);
+    await engine.findLocator(browser, 'help link', page, true);
+
+    const saved = await cache.get(key);
+    const help = await cache.get('https://example.com/login::help link');
+    expect(saved?.domFingerprint).toBeDefined();
+    expect(help?.domFingerprint).toBe(saved?.domFingerprint);
+  });
+
+  it('counts a heal when a cached selector is replaced', async () => {
+    const find = vi.fn(async () => ({ best: '#save-v2', alternates: [] }));
+    const { engine, cache } = createEngine(find);
+    await cache.set(key, { best: '#save', hitCount: 5, healCount: 1, source: 'llm' });
+    const browser = createBrowser({ '#save-v2': 1 });
+
+    await engine.findLocator(browser, 'save button', '<button id="save-v2">Save</button>');
+
+    expect(await cache.get(key)).toMatchObject({
+      best: '#save-v2',
+      hitCount: 5,
+      healCount: 2
+    });
+  });
+
+  it('marks strategy matches', async () => {
+    const { engine, cache } = createEngine();
+    const browser = createBrowser({ '//button[': 1 });
+
+    await engine.findLocator(browser, 'save button');
+
+    expect(await cache.get(key)).toMatchObject({ source: 'strategy', healCount: 0 });
+  });
+});
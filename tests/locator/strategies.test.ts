@@ -9,7 +9,8 @@ import {
   ariaRoleSelector,
   idClassSelector,
   headingSelector,
-  cssCandidate
+  cssCandidate,
+  extractTargetText
 } from '../../src/locator/strategies';
 
 beforeEach(() => {
@@ -39,61 +40,70 @@ describe('locator strategies', () => {
   it('dataTestIdSelector covers common data attribute variations', () => {
     const selector = dataTestIdSelector('Login Button');
     expect(selector).toBe(
-      '[data-testid*="login-button"],[data-test*="login-button"],[data-qa*="login-button"],[data-cy*="login-button"]'
+      '[data-testid="login-button"],[data-test="login-button"],[data-qa="login-button"],[data-cy="login-button"]'
     );
   });
 
-  it('buttonByTextSelector combines multiple button strategies', () => {
+  it('buttonByTextSelector combines multiple button strategies on the whole label', () => {
     const selector = buttonByTextSelector('Checkout');
     expect(
       selector.includes(
-        "//button[contains(translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), \"checkout\")]"
+        "//button[translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz')=\"checkout\"]"
       )
     ).toBe(true);
     expect(
       selector.includes(
-        "//input[@type='button' or @type='submit'][contains(translate(@value, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), \"checkout\")]"
+        "//input[@type='button' or @type='submit'][translate(normalize-space(@value), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz')=\"checkout\"]"
       )
     ).toBe(true);
     expect(
       selector.includes(
-        "//*[@role='button'][contains(translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), \"checkout\")]"
+        "//*[@role='button'][translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz')=\"checkout\"]"
       )
     ).toBe(true);
+    expect(selector).not.toContain('contains(');
   });
 
   it('linkByTextSelector handles text and aria-label matches', () => {
     const selector = linkByTextSelector('Pricing');
     expect(
       selector.includes(
-        "//a[contains(translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), \"pricing\")"
+        "//a[translate(normalize-space(.), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz')=\"pricing\""
       )
     ).toBe(true);
     expect(
       selector.includes(
-        "contains(translate(@aria-label, 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz'), \"pricing\")"
+        "translate(normalize-space(@aria-label), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz')=\"pricing\""
       )
     ).toBe(true);
   });
 
-  it('inputByLabelSelector targets label associations and accessibility attributes', () => {
+  it('inputByLabelSelector resolves labels to their controls', () => {
     const selector = inputByLabelSelector('Email Address');
-    expect(selector.includes('//label[contains(normalize-space(.), "Email Address")]/@for')).toBe(
-      true
-    );
-    expect(selector.includes('//label[contains(normalize-space(.), "Email Address")]//input')).toBe(
-      true
-    );
+    const label =
+      "//label[translate(normalize-space(translate(., ':*', '')), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz')=\"email address\"]";
+    expect(selector.startsWith(`xpath=//*[@id=${label}/@for] | `)).toBe(true);
+    expect(selector.includes(`${label}//input`)).toBe(true);
     expect(
-      selector.includes('//input[@aria-label="Email Address" or @placeholder="Email Address"]')
+      selector.includes(
+        "//input[translate(normalize-space(@aria-label), 'ABCDEFGHIJKLMNOPQRSTUVWXYZ', 'abcdefghijklmnopqrstuvwxyz')=\"email address\""
+      )
     ).toBe(true);
+    // Every branch selects elements; WebDriver rejects attribute nodes such as label/@for
+    expect(selector.split(' | ').some((branch) => /\/@for$/.test(branch))).toBe(false);
   });
 
   it('ariaRoleSelector builds OR conditions across common roles', () => {
     const selector = ariaRoleSelector('Dashboard');
     expect(selector.startsWith('xpath=')).toBe(true);
     expect(selector.includes("//*[@role='button']")).toBe(true);
-    expect(selector.includes('dashboard')).toBe(true);
+    expect(selector.includes('="dashboard"')).toBe(true);
+  });
+
+  it('ariaRoleSelector escapes quotes in the text', () => {
+    const selector = ariaRoleSelector("Don't save");
+    expect(selector.includes('="don\'t save"')).toBe(true);
+    expect(selector).not.toContain("'don't save'");
   });
 
   it('idClassSelector generates ID and class-based selectors', () => {
@@ -112,3 +122,11 @@ describe('locator strategies', () => {
     expect(cssCandidate(selector)).toBe(selector);
   });
 });
+
+describe('extractTargetText', () => {
+  it('extractTargetText drops element-type words and prefers quoted text', () => {
+    expect(extractTargetText('login button')).toBe('login');
+    expect(extractTargetText('the Email input field')).toBe('Email');
+    expect(extractTargetText('the "Sign in" link')).toBe('Sign in');
+  });
+});
@@ -0,0 +1,88 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { StrategyRegistry, BUILT_IN_STRATEGIES } from '../../src/locator/strategyRegistry';
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('StrategyRegistry', () => {
+  it('registers the built-in strategies by default', () => {
+    const registry = new StrategyRegistry();
+    expect(registry.names()).toEqual(BUILT_IN_STRATEGIES.map((s) => s.name));
+  });
+
+  it('only produces candidates from strategies that fit the description', () => {
+    const candidates = new StrategyRegistry().candidatesFor('checkout button', 'https://x.test');
+    expect(candidates.map((c) => c.strategy)).toEqual([
+      'buttonByText',
+      'dataTestId',
+      'ariaRole',
+      'textExact'
+    ]);
+    expect(candidates.every((c) => !c.selector.startsWith('xpath='))).toBe(true);
+  });
+
+  it('runs custom strategies first and passes the extracted text and url', () => {
+    const build = vi.fn((_desc: string, ctx: { text: string }) => [
+      `[data-automation-id="${ctx.text}"]`,
+      `ds-button[label="${ctx.text}"]`
+    ]);
+    const registry = new StrategyRegistry([{ name: 'automationId', build }]);
+
+    const candidates = registry.candidatesFor('Save button', 'https://x.test/form');
+
+    expect(build).toHaveBeenCalledWith('Save button', { url: 'https://x.test/form', text: 'Save' });
+    expect(candidates.slice(0, 2)).toEqual([
+      { strategy: 'automationId', selector: '[data-automation-id="Save"]' },
+      { strategy: 'automationId', selector: 'ds-button[label="Save"]' }
+    ]);
+  });
+
+  it('still asks custom strategies when the description names no target text', () => {
+    const registry = new StrategyRegistry([
+      { name: 'automationId', build: () => '[data-automation-id=u]' }
+    ]);
+
+    expect(registry.candidatesFor('button', 'u')).toEqual([
+      { strategy: 'automationId', selector: '[data-automation-id=u]' }
+    ]);
+  });
+
+  it('turns strategies off by name and lets custom strategies replace built-ins', () => {
+    const registry = new StrategyRegistry(
+      [{ name: 'dataTestId', build: (_d, { text }) => `[data-qa="${text}"]` }],
+      ['ariaRole', 'textExact']
+    );
+
+    expect(registry.names()).toEqual([
+      'dataTestId',
+      'buttonByText',
+      'linkByText',
+      'inputByLabel',
+      'heading'
+    ]);
+  });
+
+  it('skips strategies that throw or return nothing', () => {
+    const registry = new StrategyRegistry(
+      [
+        {
+          name: 'broken',
+          build: () => {
+            throw new Error('boom');
+          }
+        },
+        { name: 'empty', build: () => undefined }
+      ],
+      ['dataTestId', 'ariaRole', 'textExact']
+    );
+
+    expect(registry.candidatesFor('login', 'https://x.test')).toEqual([]);
+  });
+});
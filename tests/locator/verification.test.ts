@@ -0,0 +1,91 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { describeFailure, strictestLevel, verifySelector } from '../../src/locator/verification';
+
+function createBrowser(elements: { displayed?: boolean; enabled?: boolean }[] | Error) {
+  return {
+    $$: vi.fn(async () => {
+      if (elements instanceof Error) throw elements;
+      return elements.map(({ displayed = true, enabled = true }) => ({
+        isDisplayed: async () => displayed,
+        isEnabled: async () => enabled
+      }));
+    })
+  } as unknown as WebdriverIO.Browser;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('verifySelector', () => {
+  it('accepts any number of matches at the exists level', async () => {
+    const result = await verifySelector(createBrowser([{}, {}, {}]), '.item');
+
+    expect(result).toEqual({ ok: true, count: 3 });
+  });
+
+  it('rejects multiple matches at the unique level', async () => {
+    const result = await verifySelector(createBrowser([{}, {}]), '.item', 'unique');
+
+    expect(result).toEqual({ ok: false, count: 2, reason: 'multiple' });
+  });
+
+  it('rejects a hidden element at the visible level', async () => {
+    const result = await verifySelector(createBrowser([{ displayed: false }]), '#save', 'visible');
+
+    expect(result).toEqual({ ok: false, count: 1, reason: 'hidden' });
+  });
+
+  it('rejects a disabled element at the interactable level', async () => {
+    const browser = createBrowser([{ enabled: false }]);
+
+    expect((await verifySelector(browser, '#save', 'visible')).ok).toBe(true);
+    expect(await verifySelector(browser, '#save', 'interactable')).toEqual({
+      ok: false,
+      count: 1,
+      reason: 'disabled'
+    });
+  });
+
+  it('reports no matches and invalid selectors', async () => {
+    expect(await verifySelector(createBrowser([]), '#missing', 'unique')).toEqual({
+      ok: false,
+      count: 0,
+      reason: 'not-found'
+    });
+    expect(await verifySelector(createBrowser(new Error('invalid selector')), '//[')).toEqual({
+      ok: false,
+      count: 0,
+      reason: 'invalid',
+      error: 'invalid selector'
+    });
+  });
+});
+
+describe('strictestLevel', () => {
+  it('returns the stricter of two levels', () => {
+    expect(strictestLevel('exists', 'unique')).toBe('unique');
+    expect(strictestLevel('interactable', 'unique')).toBe('interactable');
+  });
+});
+
+describe('describeFailure', () => {
+  it('explains each failure reason and nothing for a pass', () => {
+    expect(describeFailure('#a', { ok: false, count: 0, reason: 'not-found' })).toBe(
+      '#a matched no elements'
+    );
+    expect(describeFailure('.a', { ok: false, count: 4, reason: 'multiple' })).toBe(
+      '.a matched 4 elements; a selector matching exactly one element is required'
+    );
+    expect(describeFailure('#a', { ok: false, count: 1, reason: 'disabled' })).toBe(
+      '#a matched an element that is disabled'
+    );
+    expect(describeFailure('#a', { ok: true, count: 1 })).toBeUndefined();
+  });
+});
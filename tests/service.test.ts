@@ -0,0 +1,71 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import AiLocatorService from '../src/service';
+
+let tmpRoot: string;
+
+function createBrowser() {
+  return {
+    addCommand: vi.fn(),
+    overwriteCommand: vi.fn()
+  } as unknown as WebdriverIO.Browser;
+}
+
+function createService() {
+  const tmpDir = mkdtempSync(path.join(tmpRoot, 'service-'));
+  return new AiLocatorService({ apiKey: 'test-key', cachePath: path.join(tmpDir, 'cache.json') });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  tmpRoot = mkdtempSync(path.join(os.tmpdir(), 'service-test-'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+  rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('AiLocatorService', () => {
+  it('registers the commands once, in before()', async () => {
+    const browser = createBrowser();
+    vi.stubGlobal('browser', browser);
+    const service = createService();
+
+    await service.before({}, [], browser);
+    await service.beforeSuite({});
+    await service.beforeTest({}, {});
+
+    const registrations = vi
+      .mocked(browser.addCommand)
+      .mock.calls.filter(([name]) => name === 'aiLocator');
+    expect(registrations).toHaveLength(2); // browser and element variants
+    expect(service.engine).toBeDefined();
+  });
+
+  it('registers in a later hook when before() had no browser', async () => {
+    const browser = createBrowser();
+    const service = createService();
+
+    await service.before({}, [], undefined as unknown as WebdriverIO.Browser);
+    vi.stubGlobal('browser', browser);
+    await service.beforeSuite({});
+
+    expect(browser.addCommand).toHaveBeenCalledWith('aiElement', expect.any(Function));
+  });
+
+  it('writes the cache hits counted during the run in after()', async () => {
+    const service = createService();
+    await service.before({}, [], createBrowser());
+    const flush = vi.spyOn(service.engine!.cache, 'flush');
+
+    await service.after(0, {}, []);
+
+    expect(flush).toHaveBeenCalledOnce();
+  });
+});
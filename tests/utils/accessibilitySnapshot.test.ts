@@ -0,0 +1,144 @@
+// @vitest-environment jsdom
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  captureAccessibilitySnapshot,
+  truncateSnapshot
+} from '../../src/utils/accessibilitySnapshot';
+
+const loginPage = `
+  <nav aria-label="Main"><a href="/home">Home</a><a>Not a link</a></nav>
+  <main>
+    <h2>Sign in</h2>
+    <form id="login-form">
+      <label for="email">Email</label><input id="email" type="email" required />
+      <label>Remember me <input type="checkbox" name="remember" checked /></label>
+      <button type="submit" data-testid="login-submit" disabled>Log in</button>
+      <input type="hidden" name="csrf" />
+      <div role="presentation"><span>Forgot your "password"?</span></div>
+    </form>
+    <div style="display: none"><button>Hidden</button></div>
+    <section aria-hidden="true"><button>Promo</button></section>
+    <button aria-expanded="false" aria-labelledby="menu-label"><span id="menu-label">Menu</span></button>
+    <script>var tracking = true;</script>
+  </main>`;
+
+describe('captureAccessibilitySnapshot', () => {
+  beforeEach(() => {
+    // jsdom has no CSS.escape; the ids below need no escaping
+    vi.stubGlobal('CSS', { escape: (value: string) => value });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    document.body.innerHTML = '';
+  });
+
+  it('lists roles, accessible names and states, indented by nesting', () => {
+    document.body.innerHTML = loginPage;
+
+    expect(captureAccessibilitySnapshot().text.split('\n')).toEqual([
+      '- navigation "Main" [ref=e1]',
+      '  - link "Home" [ref=e2]',
+      '  - text "Not a link" [ref=e3]',
+      '- main [ref=e4]',
+      '  - heading "Sign in" [level=2] [ref=e5]',
+      '  - form [ref=e6]',
+      '    - text "Email" [ref=e7]',
+      '    - textbox "Email" [required] [ref=e8]',
+      '    - text "Remember me" [ref=e9]',
+      '      - checkbox "Remember me" [checked] [ref=e10]',
+      '    - button "Log in" [disabled] [ref=e11]',
+      '    - text "Forgot your \\"password\\"?" [ref=e12]',
+      '  - button "Menu" [collapsed] [ref=e13]',
+      '    - text "Menu" [ref=e14]'
+    ]);
+  });
+
+  it('maps refs to unique, durable selectors', () => {
+    document.body.innerHTML = loginPage;
+
+    const { refs } = captureAccessibilitySnapshot();
+
+    expect(refs.e6).toEqual(['#login-form']);
+    expect(refs.e8).toEqual(['#email']);
+    expect(refs.e10).toEqual(['input[name="remember"]']);
+    expect(refs.e11).toEqual([
+      '[data-testid="login-submit"]',
+      '//button[normalize-space(.)="Log in"]'
+    ]);
+    expect(refs.e12).toEqual([`//span[normalize-space(text())='Forgot your "password"?']`]);
+  });
+
+  it('skips generated ids and falls back to a structural path when nothing is unique', () => {
+    document.body.innerHTML =
+      '<ul><li><button id="react-1234">Edit</button></li><li><button>Edit</button></li></ul>';
+
+    const { text, refs } = captureAccessibilitySnapshot();
+
+    expect(text).toContain('- button "Edit" [ref=e3]');
+    expect(refs.e3).toEqual([
+      '//button[normalize-space(.)="Edit"]',
+      'html > body > ul > li:nth-of-type(1) > button'
+    ]);
+  });
+
+  it('captures only the subtree of a root, with paths relative to it', () => {
+    document.body.innerHTML =
+      '<input placeholder="Search" /><div id="filters"><input /><input /></div>';
+
+    const { text, refs } = captureAccessibilitySnapshot(document.getElementById('filters'));
+
+    expect(text).toBe('- textbox [ref=e1]\n- textbox [ref=e2]');
+    expect(refs.e2).toEqual([':scope > input:nth-of-type(2)']);
+  });
+});
+
+describe('truncateSnapshot', () => {
+  it('keeps short snapshots as they are', () => {
+    expect(truncateSnapshot('- button "Save" [ref=e1]')).toBe('- button "Save" [ref=e1]');
+  });
+
+  it('cuts at a line boundary and says how many entries were left out', () => {
+    const text = Array.from({ length: 10 }, (_, i) => `- link "Item ${i}" [ref=e${i + 1}]`).join(
+      '\n'
+    );
+
+    const result = truncateSnapshot(text, 70);
+
+    expect(result.split('\n')).toEqual([
+      '- link "Item 0" [ref=e1]',
+      '- link "Item 1" [ref=e2]',
+      '- ... 8 more entries not shown'
+    ]);
+  });
+});
+
+describe('truncateSnapshot with a description', () => {
+  const links = Array.from({ length: 40 }, (_, i) => `  - link "Article ${i}" [ref=e${i + 2}]`);
+  const snapshot = [
+    '- main [ref=e1]',
+    ...links,
+    '  - form "Checkout" [ref=e42]',
+    '    - textbox "Coupon code" [ref=e43]',
+    '    - button "Apply coupon" [ref=e44]'
+  ].join('\n');
+
+  it('keeps matching entries below the cutoff with the entries around them', () => {
+    const result = truncateSnapshot(snapshot, 200, 'apply coupon button');
+
+    expect(result.split('\n')).toEqual([
+      '- main [ref=e1]',
+      '  - form "Checkout" [ref=e42]',
+      '    - textbox "Coupon code" [ref=e43]',
+      '    - button "Apply coupon" [ref=e44]',
+      '- ... 40 more entries not shown'
+    ]);
+  });
+
+  it('cuts from the top when nothing matches the description', () => {
+    const result = truncateSnapshot(snapshot, 200, 'shipping address');
+
+    expect(result.startsWith('- main [ref=e1]\n  - link "Article 0" [ref=e2]')).toBe(true);
+    expect(result).not.toContain('Apply coupon');
+  });
+});
@@ -0,0 +1,118 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { SHADOW_ROOT_MARKER, hasShadowRoots, toDeepSelector } from '../../src/utils/shadowDom';
+import {
+  FRAME_MARKER,
+  hasFrames,
+  parseFramePath,
+  serializePageDom
+} from '../../src/utils/domCapture';
+import { extractMinimalDom } from '../../src/utils/domParser';
+
+// Minimal stand-ins for DOM nodes, enough for the serialiser
+function text(content: string) {
+  return { nodeType: 3, textContent: content, childNodes: [] };
+}
+
+function el(tag: string, attrs: string, children: any[] = [], shadowChildren?: any[]) {
+  return {
+    nodeType: 1,
+    tagName: tag.toUpperCase(),
+    childNodes: children,
+    shadowRoot: shadowChildren ? { childNodes: shadowChildren } : null,
+    cloneNode: () => ({ outerHTML: `<${tag}${attrs}></${tag}>` })
+  };
+}
+
+function iframe(attrs: string, contentDocument: any) {
+  const frame: any = el('iframe', attrs);
+  frame.ownerDocument = { querySelectorAll: () => [frame] };
+  frame.contentDocument = contentDocument;
+  return frame;
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.stubGlobal('Node', { TEXT_NODE: 3, ELEMENT_NODE: 1 });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('serializePageDom', () => {
+  it('inlines open shadow roots inside a marker before the light DOM', () => {
+    const host = el(
+      'my-card',
+      ' id="card"',
+      [text('light')],
+      [el('button', ' class="save"', [text('Save')])]
+    );
+    vi.stubGlobal('document', {
+      documentElement: el('html', '', [el('body', '', [host, el('script', '', [text('x')])])])
+    });
+
+    expect(serializePageDom({ shadowRoot: SHADOW_ROOT_MARKER })).toBe(
+      '<html><body><my-card id="card"><wdio-shadow-root><button class="save">Save</button></wdio-shadow-root>light</my-card></body></html>'
+    );
+  });
+
+  it('inlines same-origin frame documents after the frame, with their path', () => {
+    const frame = iframe(' id="pay"', {
+      documentElement: el('html', '', [el('body', '', [el('input', ' id="card"')])])
+    });
+    vi.stubGlobal('document', { documentElement: el('html', '', [el('body', '', [frame])]) });
+
+    expect(serializePageDom({ frame: FRAME_MARKER })).toBe(
+      '<html><body><iframe id="pay"></iframe><wdio-frame path="0"><html><body><input id="card"></input></body></html></wdio-frame></body></html>'
+    );
+  });
+
+  it('leaves out cross-origin frames and frames when not requested', () => {
+    const frame = iframe(' id="ads"', null);
+    vi.stubGlobal('document', { documentElement: el('html', '', [el('body', '', [frame])]) });
+
+    expect(serializePageDom({ frame: FRAME_MARKER })).toBe(
+      '<html><body><iframe id="ads"></iframe></body></html>'
+    );
+    frame.contentDocument = { documentElement: el('html', '') };
+    expect(hasFrames(serializePageDom({ shadowRoot: SHADOW_ROOT_MARKER }))).toBe(false);
+  });
+});
+
+describe('frame helpers', () => {
+  it('keeps the frame marker and its path through DOM minimisation', () => {
+    const dom = extractMinimalDom(
+      '<iframe id="pay"></iframe><wdio-frame path="0.1"><input id="card" /></wdio-frame>'
+    );
+
+    expect(hasFrames(dom)).toBe(true);
+    expect(dom).toMatch(/<wdio-frame path="0\.1">/);
+  });
+
+  it('parses frame paths', () => {
+    expect(parseFramePath('0.1')).toEqual([0, 1]);
+    expect(parseFramePath(' 2 ')).toEqual([2]);
+    expect(parseFramePath('')).toBeUndefined();
+    expect(parseFramePath('main')).toBeUndefined();
+  });
+});
+
+describe('shadow DOM helpers', () => {
+  it('keeps the marker through DOM minimisation', () => {
+    const dom = extractMinimalDom(
+      '<div id="host"><wdio-shadow-root><button id="b">Go</button></wdio-shadow-root></div>'
+    );
+
+    expect(hasShadowRoots(dom)).toBe(true);
+  });
+
+  it('builds deep variants of CSS selectors only', () => {
+    expect(toDeepSelector('button.save')).toBe('>>>button.save');
+    expect(toDeepSelector('>>>button.save')).toBe('>>>button.save');
+    expect(toDeepSelector("//button[.='Save']")).toBe("//button[.='Save']");
+    expect(toDeepSelector('.//button')).toBe('.//button');
+  });
+});
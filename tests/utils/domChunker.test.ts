@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { selectRelevantDom } from '../../src/utils/domChunker';
+import { extractMinimalDom } from '../../src/utils/domParser';
+
+const filler = Array.from({ length: 50 }, (_, i) => `<p>Lorem ipsum paragraph ${i}</p>`).join('');
+const page =
+  `<main id="app"><div class="articles">${filler}</div>` +
+  '<form id="checkout"><label for="coupon">Coupon code</label><input id="coupon" name="coupon" />' +
+  '<button class="apply">Apply coupon</button></form></main>';
+
+describe('selectRelevantDom', () => {
+  it('returns the DOM unchanged when it fits the budget', () => {
+    expect(selectRelevantDom('<button>Save</button>', 'save button', 100)).toBe(
+      '<button>Save</button>'
+    );
+  });
+
+  it('keeps the matching subtree past the cutoff, inside its ancestor path', () => {
+    const result = selectRelevantDom(page, 'apply coupon button', 400)!;
+
+    expect(result).toBe(
+      '<main id="app"><form id="checkout"><label for="coupon">Coupon code</label><input id="coupon" name="coupon" /><button class="apply">Apply coupon</button></form></main>'
+    );
+    expect(result.length).toBeLessThanOrEqual(400);
+  });
+
+  it('packs several matches in document order within the budget', () => {
+    const dom = `<div><nav><a href="/cart">Cart</a></nav>${filler}<footer><a href="/help">Help</a></footer></div>`;
+
+    const result = selectRelevantDom(dom, 'cart link or help link', 200)!;
+
+    expect(result).toBe(
+      '<div><nav><a href="/cart">Cart</a></nav><footer><a href="/help">Help</a></footer></div>'
+    );
+  });
+
+  it('gives up when nothing relates to the description', () => {
+    expect(selectRelevantDom(page, 'shipping address', 400)).toBeUndefined();
+  });
+});
+
+describe('extractMinimalDom with a description', () => {
+  it('keeps the relevant part instead of the first characters', () => {
+    const result = extractMinimalDom(`<html><body>${page}</body></html>`, 400, 'apply coupon');
+
+    expect(result).toContain('<button class="apply">Apply coupon</button>');
+    expect(result).not.toContain('Lorem');
+  });
+
+  it('falls back to truncation when nothing matches', () => {
+    const result = extractMinimalDom(`<html><body>${page}</body></html>`, 400, 'shipping');
+
+    expect(result.startsWith('<main id="app">')).toBe(true);
+    expect(result).not.toContain('Apply coupon');
+  });
+});
@@ -1,5 +1,5 @@
 import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
-import { extractMinimalDom } from '../../src/utils/domParser';
+import { extractMinimalDom, extractMinimalNativeDom } from '../../src/utils/domParser';
 
 beforeEach(() => {
   vi.spyOn(console, 'log').mockImplementation(() => {});
@@ -35,3 +35,80 @@ describe('extractMinimalDom', () => {
     expect(extractMinimalDom('')).toBe('');
   });
 });
+
+describe('extractMinimalNativeDom', () => {
+  it('keeps native nodes with their identifying attributes only', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<hierarchy index="0" rotation="0">
+  <android.widget.FrameLayout index="0" class="android.widget.FrameLayout" text="" bounds="[0,0][1080,2400]">
+    <android.widget.Button index="1" text="Log in" resource-id="com.example:id/login" content-desc="" clickable="true" />
+  </android.widget.FrameLayout>
+</hierarchy>`;
+
+    expect(extractMinimalNativeDom(xml)).toBe(
+      '<hierarchy><android.widget.FrameLayout><android.widget.Button text="Log in" resource-id="com.example:id/login"/></android.widget.FrameLayout></hierarchy>'
+    );
+  });
+
+  it('keeps iOS name, label and accessibility attributes', () => {
+    const xml =
+      '<XCUIElementTypeButton type="XCUIElementTypeButton" name="login" label="Log in" enabled="true" x="10"/>';
+
+    expect(extractMinimalNativeDom(xml)).toBe(
+      '<XCUIElementTypeButton name="login" label="Log in"/>'
+    );
+  });
+});
+
+describe('extractMinimalDom profiles', () => {
+  it('keeps extra tags, attributes and custom elements matching a pattern', () => {
+    const html =
+      '<form><mat-select formcontrolname="country" ng-reflect-name="country"><span>NL</span></mat-select>' +
+      '<ion-button data-automation="save">Save</ion-button><my-widget>Widget</my-widget><svg></svg></form>';
+
+    expect(extractMinimalDom(html)).toBe('<form><span>NL</span>SaveWidget</form>');
+    expect(
+      extractMinimalDom(html, 10000, undefined, {
+        allowedTags: ['svg'],
+        allowedAttributes: ['formcontrolname', 'ng-reflect-*'],
+        customElements: ['mat-*', /^ion-/]
+      })
+    ).toBe(
+      '<form><mat-select formcontrolname="country" ng-reflect-name="country"><span>NL</span></mat-select>' +
+        '<ion-button data-automation="save">Save</ion-button>Widget<svg></svg></form>'
+    );
+  });
+
+  it('replaces the default allowlists', () => {
+    const html = '<div id="a"><button id="b" data-test="x">Go</button></div>';
+
+    expect(
+      extractMinimalDom(html, 10000, undefined, {
+        replaceDefaults: true,
+        allowedTags: ['button'],
+        allowedAttributes: ['data-test']
+      })
+    ).toBe('<button data-test="x">Go</button>');
+  });
+
+  it('drops noisy attributes and strips framework hash classes', () => {
+    const html =
+      '<button class="css-1x2y3z primary sc-bdVaJa jss12" data-v-7ba5bd90="" data-reactid="4" data-testid="buy">Buy</button>' +
+      '<span class="css-9abc">x</span>';
+
+    expect(
+      extractMinimalDom(html, 10000, undefined, {
+        dropAttributes: ['data-v-*', 'data-reactid'],
+        stripFrameworkHashes: true
+      })
+    ).toBe('<button class="primary" data-testid="buy">Buy</button><span>x</span>');
+  });
+
+  it('strips custom class patterns', () => {
+    const html = '<input class="ng-touched ng-valid email" name="email" />';
+
+    expect(extractMinimalDom(html, 10000, undefined, { stripClasses: [/^ng-/] })).toBe(
+      '<input class="email" name="email" />'
+    );
+  });
+});
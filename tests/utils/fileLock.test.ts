@@ -0,0 +1,109 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import {
+  mkdtempSync,
+  rmSync,
+  writeFileSync,
+  readdirSync,
+  existsSync,
+  readFileSync,
+  utimesSync
+} from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { readJsonFile, withFileLock, writeFileAtomic } from '../../src/utils/fileLock';
+
+let tmpRoot: string;
+
+function tmpDir() {
+  return mkdtempSync(path.join(tmpRoot, 'file-lock-'));
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  tmpRoot = mkdtempSync(path.join(os.tmpdir(), 'file-lock-test-'));
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(tmpRoot, { recursive: true, force: true });
+});
+
+describe('withFileLock', () => {
+  it('holds the lock while fn runs and releases it afterwards', async () => {
+    const filePath = path.join(tmpDir(), 'cache.json');
+
+    const held = await withFileLock(filePath, () => existsSync(`${filePath}.lock`));
+
+    expect(held).toBe(true);
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('releases the lock when fn throws', async () => {
+    const filePath = path.join(tmpDir(), 'cache.json');
+
+    await expect(
+      withFileLock(filePath, () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect(existsSync(`${filePath}.lock`)).toBe(false);
+  });
+
+  it('breaks a lock left behind by a crashed worker', async () => {
+    const filePath = path.join(tmpDir(), 'cache.json');
+    writeFileSync(`${filePath}.lock`, '');
+    const past = new Date(Date.now() - 60000);
+    utimesSync(`${filePath}.lock`, past, past);
+
+    expect(await withFileLock(filePath, () => 'done')).toBe('done');
+  });
+
+  it('leaves a lock taken over by another worker in place', async () => {
+    const filePath = path.join(tmpDir(), 'cache.json');
+
+    await withFileLock(filePath, () => {
+      // Another worker broke this lock as stale and took it
+      writeFileSync(`${filePath}.lock`, 'other-worker');
+    });
+
+    expect(readFileSync(`${filePath}.lock`, 'utf-8')).toBe('other-worker');
+  });
+
+  it('waits for the current holder without blocking the event loop', async () => {
+    const filePath = path.join(tmpDir(), 'cache.json');
+    const order: string[] = [];
+    let release!: () => void;
+    const held = withFileLock(filePath, () => new Promise<void>((resolve) => (release = resolve)));
+
+    const waiting = withFileLock(filePath, () => order.push('second'));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    order.push('timer');
+    release();
+    await Promise.all([held, waiting]);
+
+    expect(order).toEqual(['timer', 'second']);
+  });
+});
+
+describe('writeFileAtomic / readJsonFile', () => {
+  it('replaces the file without leaving temp files behind', () => {
+    const dir = tmpDir();
+    const filePath = path.join(dir, 'cache.json');
+    writeFileSync(filePath, '{"old":true}');
+
+    writeFileAtomic(filePath, '{"new":true}');
+
+    expect(readJsonFile(filePath)).toEqual({ new: true });
+    expect(readdirSync(dir)).toEqual(['cache.json']);
+  });
+
+  it('returns undefined for missing or corrupt files', () => {
+    const dir = tmpDir();
+    writeFileSync(path.join(dir, 'broken.json'), '{"half":');
+
+    expect(readJsonFile(path.join(dir, 'missing.json'))).toBeUndefined();
+    expect(readJsonFile(path.join(dir, 'broken.json'))).toBeUndefined();
+  });
+});
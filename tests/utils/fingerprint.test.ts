@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { structureFingerprint } from '../../src/utils/fingerprint';
+
+describe('structureFingerprint', () => {
+  it('ignores text and attribute values but not structure', () => {
+    const page = structureFingerprint('<form><input id="a"><button>Save</button></form>');
+
+    expect(page).toMatch(/^[0-9a-f]{16}$/);
+    expect(structureFingerprint('<form><input id="b"><button>Send</button></form>')).toBe(page);
+    expect(structureFingerprint('<form><button>Save</button></form>')).not.toBe(page);
+  });
+
+  it('covers the roles of an accessibility snapshot', () => {
+    const snapshot = structureFingerprint('- button "Save" [ref=e1]');
+
+    expect(structureFingerprint('- button "Send" [ref=e7]')).toBe(snapshot);
+    expect(structureFingerprint('- link "Save" [ref=e1]')).not.toBe(snapshot);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { detectPlatform, getPageKey } from '../../src/utils/platform';
+
+function createSession(session: Record<string, any>) {
+  return {
+    getUrl: vi.fn(async () => 'https://example.com/login'),
+    getCurrentActivity: vi.fn(async () => '.LoginActivity'),
+    ...session
+  } as unknown as WebdriverIO.Browser;
+}
+
+describe('detectPlatform', () => {
+  it('treats desktop and mobile browser sessions as web', () => {
+    expect(detectPlatform(createSession({ capabilities: { browserName: 'chrome' } }))).toBe('web');
+    expect(
+      detectPlatform(
+        createSession({ capabilities: { platformName: 'Android', browserName: 'chrome' } })
+      )
+    ).toBe('web');
+  });
+
+  it('detects native app sessions from the capabilities', () => {
+    expect(detectPlatform(createSession({ capabilities: { platformName: 'Android' } }))).toBe(
+      'android'
+    );
+    expect(detectPlatform(createSession({ capabilities: { platformName: 'iOS' } }))).toBe('ios');
+  });
+
+  it('follows the current context when the session reports it', () => {
+    const capabilities = { platformName: 'Android' };
+
+    expect(detectPlatform(createSession({ capabilities, isNativeContext: false }))).toBe('web');
+    expect(detectPlatform(createSession({ capabilities, isNativeContext: true }))).toBe('android');
+  });
+});
+
+describe('getPageKey', () => {
+  it('uses the URL on the web and the app and activity in native contexts', async () => {
+    expect(await getPageKey(createSession({}))).toBe('https://example.com/login');
+    expect(
+      await getPageKey(
+        createSession({
+          capabilities: { platformName: 'Android', 'appium:appPackage': 'com.example' }
+        })
+      )
+    ).toBe('android://com.example/.LoginActivity');
+    expect(
+      await getPageKey(
+        createSession({ capabilities: { platformName: 'iOS', 'appium:bundleId': 'com.example' } })
+      )
+    ).toBe('ios://com.example');
+  });
+});
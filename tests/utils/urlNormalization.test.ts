@@ -0,0 +1,68 @@
+import { beforeEach, afterEach, describe, it, expect, vi } from 'vitest';
+import { normalizeUrl } from '../../src/utils/urlNormalization';
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('normalizeUrl', () => {
+  it('strips the query and collapses numeric and UUID segments by default', () => {
+    expect(normalizeUrl('https://shop.example.com/orders/1234?tab=items')).toBe(
+      'https://shop.example.com/orders/:id'
+    );
+    expect(
+      normalizeUrl('https://shop.example.com/users/3f2b8c9e-1d4a-4b6f-9a7e-2c5d8e0f1a3b/edit')
+    ).toBe('https://shop.example.com/users/:id/edit');
+    expect(normalizeUrl('https://shop.example.com/v2/login')).toBe(
+      'https://shop.example.com/v2/login'
+    );
+  });
+
+  it('keeps the hash by default so hash-routed pages get their own scope', () => {
+    expect(normalizeUrl('https://app.example.com/?lang=en#/orders')).toBe(
+      'https://app.example.com/#/orders'
+    );
+    expect(normalizeUrl('https://app.example.com/#/orders', { keepHash: false })).toBe(
+      'https://app.example.com/'
+    );
+  });
+
+  it('keeps the query and ids when asked', () => {
+    expect(
+      normalizeUrl('https://app.example.com/orders/12?tab=items#/details', {
+        keepQuery: true,
+        collapseIds: false
+      })
+    ).toBe('https://app.example.com/orders/12?tab=items#/details');
+  });
+
+  it('scopes matching paths by their route pattern', () => {
+    const routes = ['/orders/:orderId/items/:itemId', '/docs/*'];
+
+    expect(normalizeUrl('https://example.com/orders/A-17/items/abc', { routes })).toBe(
+      'https://example.com/orders/:orderId/items/:itemId'
+    );
+    expect(normalizeUrl('https://example.com/docs/guide/setup', { routes })).toBe(
+      'https://example.com/docs/*'
+    );
+    expect(normalizeUrl('https://example.com/orders/A-17', { routes })).toBe(
+      'https://example.com/orders/A-17'
+    );
+  });
+
+  it('leaves raw URLs and non-URL keys alone', () => {
+    expect(normalizeUrl('https://example.com/orders/1?x=1', false)).toBe(
+      'https://example.com/orders/1?x=1'
+    );
+    expect(normalizeUrl('unknown-url')).toBe('unknown-url');
+    expect(normalizeUrl('android://com.example/.LoginActivity')).toBe(
+      'android://com.example/.LoginActivity'
+    );
+  });
+});
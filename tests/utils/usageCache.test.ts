@@ -32,12 +32,12 @@ describe('UsageCache', () => {
     selector: '#login-btn'
   });
 
-  it('persists usage entries when enabled', () => {
+  it('persists usage entries when enabled', async () => {
     const tmpDir = mkdtempSync(path.join(baseDir, 'enabled-'));
     const cachePath = path.join(tmpDir, 'usage.json');
 
     const cache = new UsageCache('OpenAI', true, cachePath);
-    cache.addUsage(buildEntry());
+    await cache.addUsage(buildEntry());
 
     expect(existsSync(cachePath)).toBe(true);
     const stored = JSON.parse(readFileSync(cachePath, 'utf-8'));
@@ -51,16 +51,32 @@ describe('UsageCache', () => {
     expect(summary.failedCalls).toBe(0);
   });
 
-  it('skips persistence when disabled', () => {
+  it('skips persistence when disabled', async () => {
     const tmpDir = mkdtempSync(path.join(baseDir, 'disabled-'));
     const cachePath = path.join(tmpDir, 'usage.json');
 
     const cache = new UsageCache('OpenAI', false, cachePath);
-    cache.addUsage(buildEntry());
+    await cache.addUsage(buildEntry());
 
     expect(existsSync(cachePath)).toBe(false);
     const summary = cache.getSummary();
     expect(summary.totalCalls).toBe(0);
     expect(summary.entries).toHaveLength(0);
   });
+
+  it('keeps entries from every worker writing to the same file', async () => {
+    const tmpDir = mkdtempSync(path.join(baseDir, 'workers-'));
+    const cachePath = path.join(tmpDir, 'usage.json');
+    const workerA = new UsageCache('OpenAI', true, cachePath);
+    const workerB = new UsageCache('OpenAI', true, cachePath);
+
+    await workerA.addUsage(buildEntry());
+    await workerB.addUsage(buildEntry());
+    await workerA.addUsage(buildEntry());
+
+    const stored = JSON.parse(readFileSync(cachePath, 'utf-8'));
+    expect(stored.totalCalls).toBe(3);
+    expect(stored.entries).toHaveLength(3);
+    expect(existsSync(`${cachePath}.lock`)).toBe(false);
+  });
 });
@@ -9,7 +9,8 @@ import {
   extractElementType,
   suggestXPathImprovements,
   chooseBetterXPath,
-  selectBestXPath
+  selectBestXPath,
+  toRelativeXPath
 } from '../../src/utils/xpathUtils';
 
 beforeEach(() => {
@@ -81,4 +82,13 @@ describe('xpathUtils', () => {
     const best = selectBestXPath(['div', '//div[1]', "//button[@data-testid='submit']"]);
     expect(best).toBe("//button[@data-testid='submit']");
   });
+
+  it('toRelativeXPath scopes every union branch to the context node', () => {
+    expect(toRelativeXPath("xpath=//button[.='A | B'] | //a[@href]")).toBe(
+      ".//button[.='A | B'] | .//a[@href]"
+    );
+    expect(toRelativeXPath('(//li)[2]')).toBe('(.//li)[2]');
+    expect(toRelativeXPath('.//li')).toBe('.//li');
+    expect(toRelativeXPath('#coupon > button')).toBe('#coupon > button');
+  });
 });